@@ -2,8 +2,12 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./SimpleSwapLP.sol";
 
 /**
  * @title SimpleSwap
@@ -16,14 +20,52 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
  * - Price calculation based on constant product formula
  * - Reentrancy protection for all external functions
  * - Sorted token pairs to prevent duplicates
+ * - Fee tiers: each pair can have one pool per enabled swap fee (0.05%, 0.3% and 1% by default)
+ * - EIP-2612 permit entry points that approve and act in one transaction
+ * - A transferable ERC-20 LP token per pool (see SimpleSwapLP)
+ * - A permanently locked MINIMUM_LIQUIDITY per pool against share inflation
+ * - An optional protocol fee, minted to feeTo as LP tokens (Uniswap V2's _mintFee)
  */
-contract SimpleSwap is ReentrancyGuard {
+contract SimpleSwap is ReentrancyGuard, Ownable2Step {
     using SafeERC20 for IERC20;
 
+    /**
+     * @notice LP tokens locked forever when a pool is created
+     * @dev Keeps the LP supply from ever returning to a few wei, which would let the
+     * first depositor inflate the value of one LP unit until later deposits round
+     * down to nothing. Same amount as Uniswap V2.
+     */
+    uint256 public constant MINIMUM_LIQUIDITY = 10**3;
+
+    /// @dev Holder of the locked liquidity; OpenZeppelin's ERC20 can't mint to address(0)
+    address private constant LOCKED_LIQUIDITY_HOLDER = 0x000000000000000000000000000000000000dEaD;
+
+    /// @notice Largest protocol share of the swap fee the owner can set, in basis points
+    uint256 public constant MAX_PROTOCOL_FEE_BPS = 5000;
+
+    /// @notice Highest swap fee a fee tier can charge, in basis points (10%)
+    uint16 public constant MAX_FEE = 1000;
+
+    /// @dev Swap fees are in basis points of the input amount
+    uint256 private constant FEE_DENOMINATOR = 10_000;
+
+    /// @notice Whether new pools can be created with a swap fee, in basis points
+    mapping(uint16 => bool) public isFeeTierEnabled;
+
+    /// @dev Every enabled fee tier, in the order it was enabled
+    uint16[] internal feeTiers;
+
+    /// @notice Address protocol fees are minted to; the zero address turns the protocol fee off
+    address public feeTo;
+
+    /// @notice Protocol share of the swap fee, in basis points (Uniswap V2 uses 1/6, about 1667)
+    uint16 public protocolFeeBps;
+
     /**
      * @notice Emitted when liquidity is added to a pool
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param amountA Amount of tokenA added to the pool
      * @param amountB Amount of tokenB added to the pool
      * @param liquidity Amount of LP (Liquidity Provider) tokens minted
@@ -32,6 +74,7 @@ contract SimpleSwap is ReentrancyGuard {
     event LiquidityAdded(
         address indexed tokenA,
         address indexed tokenB,
+        uint16 fee,
         uint256 amountA,
         uint256 amountB,
         uint256 liquidity,
@@ -42,6 +85,7 @@ contract SimpleSwap is ReentrancyGuard {
      * @notice Emitted when liquidity is removed from a pool
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param amountA Amount of tokenA received
      * @param amountB Amount of tokenB received
      * @param liquidity Amount of LP tokens burned
@@ -50,17 +94,53 @@ contract SimpleSwap is ReentrancyGuard {
     event LiquidityRemoved(
         address indexed tokenA,
         address indexed tokenB,
+        uint16 fee,
         uint256 amountA,
         uint256 amountB,
         uint256 liquidity,
         address indexed to
     );
 
+    /**
+     * @notice Emitted the first time liquidity is added for a token pair and fee tier
+     * @param token0 Address of the smaller token in the pair
+     * @param token1 Address of the larger token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @param lpToken Address of the pool's LP token
+     * @param poolIndex Position of the pool in the registry (see poolAt)
+     */
+    event PoolCreated(
+        address indexed token0,
+        address indexed token1,
+        uint16 indexed fee,
+        address lpToken,
+        uint256 poolIndex
+    );
+
+    /**
+     * @notice Emitted when a fee tier becomes available for new pools
+     * @param fee Swap fee of the tier, in basis points
+     */
+    event FeeTierEnabled(uint16 fee);
+
+    /**
+     * @notice Emitted when the owner changes the protocol fee recipient
+     * @param feeTo New recipient, or the zero address if the protocol fee is off
+     */
+    event FeeToUpdated(address indexed feeTo);
+
+    /**
+     * @notice Emitted when the owner changes the protocol share of the swap fee
+     * @param protocolFeeBps New share, in basis points of the swap fee
+     */
+    event ProtocolFeeUpdated(uint256 protocolFeeBps);
+
     /**
      * @notice Emitted when a token swap occurs
      * @param sender Address that initiated the swap
      * @param tokenIn Address of the input token
      * @param tokenOut Address of the output token
+     * @param fee Swap fee of the pool the swap went through, in basis points
      * @param amountIn Amount of input tokens swapped
      * @param amountOut Amount of output tokens received
      * @param to Address that received the output tokens
@@ -69,6 +149,7 @@ contract SimpleSwap is ReentrancyGuard {
         address indexed sender,
         address indexed tokenIn,
         address indexed tokenOut,
+        uint16 fee,
         uint256 amountIn,
         uint256 amountOut,
         address to
@@ -78,24 +159,47 @@ contract SimpleSwap is ReentrancyGuard {
      * @dev Pool structure to store reserve and liquidity information
      * @param reserveA Reserve amount of tokenA in the pool
      * @param reserveB Reserve amount of tokenB in the pool
-     * @param totalLiquidity Total supply of LP tokens for this pool
+     * @param totalLiquidity Total supply of LP tokens for this pool, kept equal to the LP token's totalSupply
+     * @param fee Swap fee charged on the pool's input amounts, in basis points; set when the pool is created
+     * @param kLast reserveA * reserveB after the latest liquidity change while the protocol fee was on
      */
     struct Pool {
         uint112 reserveA;
         uint112 reserveB;
         uint112 totalLiquidity;
+        uint16 fee;
+        uint256 kLast;
     }
 
-    /// @dev Mapping from tokenA to tokenB to Pool data structure
-    mapping(address => mapping(address => Pool)) internal pools;
+    /// @dev Mapping from token0 to token1 to fee tier to Pool data structure
+    mapping(address => mapping(address => mapping(uint16 => Pool))) internal pools;
     
-    /// @dev Mapping from tokenA to tokenB to user address to LP token balance
-    mapping(address => mapping(address => mapping(address => uint112))) internal liquidity;
+    /// @dev Mapping from token0 to token1 to fee tier to the pool's LP token, zero until the pool is created
+    mapping(address => mapping(address => mapping(uint16 => SimpleSwapLP))) internal lpTokens;
+
+    /**
+     * @dev Sorted token pair and fee tier identifying a registered pool
+     * @param token0 Address of the smaller token in the pair
+     * @param token1 Address of the larger token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     */
+    struct PoolKey {
+        address token0;
+        address token1;
+        uint16 fee;
+    }
+
+    /// @dev Every pool ever initialised, in creation order
+    PoolKey[] internal allPools;
+
+    /// @dev Mapping from token0 to token1 to fee tier to whether the pool is in allPools
+    mapping(address => mapping(address => mapping(uint16 => bool))) internal isRegisteredPool;
 
     /**
      * @dev Parameters for adding liquidity to a pool
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param amountADesired Desired amount of tokenA to add
      * @param amountBDesired Desired amount of tokenB to add
      * @param amountAMin Minimum amount of tokenA that must be added (slippage protection)
@@ -106,6 +210,7 @@ contract SimpleSwap is ReentrancyGuard {
     struct AddLiquidityParams {
         address tokenA;
         address tokenB;
+        uint16 fee;
         uint256 amountADesired;
         uint256 amountBDesired;
         uint256 amountAMin;
@@ -118,6 +223,7 @@ contract SimpleSwap is ReentrancyGuard {
      * @dev Parameters for removing liquidity from a pool
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param liquidityAmt Amount of LP tokens to burn
      * @param amountAMin Minimum amount of tokenA that must be received (slippage protection)
      * @param amountBMin Minimum amount of tokenB that must be received (slippage protection)
@@ -127,6 +233,7 @@ contract SimpleSwap is ReentrancyGuard {
     struct RemoveLiquidityParams {
         address tokenA;
         address tokenB;
+        uint16 fee;
         uint256 liquidityAmt;
         uint256 amountAMin;
         uint256 amountBMin;
@@ -134,13 +241,41 @@ contract SimpleSwap is ReentrancyGuard {
         uint256 deadline;
     }
 
+    /**
+     * @dev EIP-2612 permit signed by the caller, granting this contract an allowance
+     * @param value Allowance granted to this contract
+     * @param deadline Unix timestamp after which the signature is invalid; zero skips the permit
+     * @param v Recovery byte of the signature
+     * @param r First 32 bytes of the signature
+     * @param s Second 32 bytes of the signature
+     */
+    struct PermitSignature {
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /**
+     * @dev The deployer becomes the owner, who controls the protocol fee and fee tiers.
+     * Pools can be created with a 0.05%, 0.3% or 1% swap fee from the start.
+     */
+    constructor() Ownable(msg.sender) {
+        _enableFeeTier(5);
+        _enableFeeTier(30);
+        _enableFeeTier(100);
+    }
+
     // --- External Functions ---
 
     /**
-     * @notice Add liquidity to a pool for a token pair
-     * @dev Tokens should be approved to be transferred by this contract
+     * @notice Add liquidity to the pool of a token pair and fee tier
+     * @dev Tokens should be approved to be transferred by this contract. The first deposit
+     * creates the pool, which needs the fee tier to be enabled.
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param amountADesired Desired amount of tokenA to add
      * @param amountBDesired Desired amount of tokenB to add
      * @param amountAMin Minimum amount of tokenA that must be added (slippage protection)
@@ -149,17 +284,21 @@ contract SimpleSwap is ReentrancyGuard {
      * @param deadline Unix timestamp after which the transaction will revert
      * @return amountA Amount of tokenA actually added
      * @return amountB Amount of tokenB actually added
-     * @return liquidityMinted Amount of LP tokens minted to the 'to' address
+     * @return liquidityMinted Amount of LP tokens minted to the 'to' address. For the
+     * first deposit in a pool this is sqrt(amountA * amountB) - MINIMUM_LIQUIDITY.
      * @notice Reverts if:
      * - Token addresses are zero or identical
      * - 'to' address is zero
      * - Amounts are zero
      * - Deadline has passed
      * - Slippage is too high (amounts are below minimums)
+     * - The pool doesn't exist yet and the fee tier isn't enabled
+     * - The first deposit doesn't mint more than MINIMUM_LIQUIDITY
      */
     function addLiquidity(
         address tokenA,
         address tokenB,
+        uint16 fee,
         uint256 amountADesired,
         uint256 amountBDesired,
         uint256 amountAMin,
@@ -167,30 +306,55 @@ contract SimpleSwap is ReentrancyGuard {
         address to,
         uint256 deadline
     ) external nonReentrant returns (uint256 amountA, uint256 amountB, uint256 liquidityMinted) {
-        require(tokenA != address(0) && tokenB != address(0), "SS:IZA");
-        require(to != address(0), "SS:IR");
-        require(amountADesired > 0 && amountBDesired > 0, "SS:INA");
-        require(deadline >= block.timestamp, "SS:EXP");
-
-        AddLiquidityParams memory params = AddLiquidityParams({
-            tokenA: tokenA,
-            tokenB: tokenB,
-            amountADesired: amountADesired,
-            amountBDesired: amountBDesired,
-            amountAMin: amountAMin,
-            amountBMin: amountBMin,
-            to: to,
-            deadline: deadline
-        });
+        return _addLiquidityChecked(tokenA, tokenB, fee, amountADesired, amountBDesired, amountAMin, amountBMin, to, deadline);
+    }
 
-        return _addLiquidity(params);
+    /**
+     * @notice Add liquidity using EIP-2612 permits instead of prior approvals
+     * @dev Same as addLiquidity, after applying a permit for each token. Pass a permit
+     * with a zero deadline for a token that is already approved.
+     * @param tokenA Address of the first token in the pair
+     * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @param amountADesired Desired amount of tokenA to add
+     * @param amountBDesired Desired amount of tokenB to add
+     * @param amountAMin Minimum amount of tokenA that must be added (slippage protection)
+     * @param amountBMin Minimum amount of tokenB that must be added (slippage protection)
+     * @param to Address that will receive the LP tokens
+     * @param deadline Unix timestamp after which the transaction will revert
+     * @param permitA Permit for tokenA signed by the caller
+     * @param permitB Permit for tokenB signed by the caller
+     * @return amountA Amount of tokenA actually added
+     * @return amountB Amount of tokenB actually added
+     * @return liquidityMinted Amount of LP tokens minted to the 'to' address
+     * @notice A permit that fails (expired, not signed by the caller, or already used)
+     * is ignored; the transfer then reverts unless the allowance is already in place.
+     * Reverts for any reason addLiquidity would
+     */
+    function addLiquidityWithPermit(
+        address tokenA,
+        address tokenB,
+        uint16 fee,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline,
+        PermitSignature calldata permitA,
+        PermitSignature calldata permitB
+    ) external nonReentrant returns (uint256 amountA, uint256 amountB, uint256 liquidityMinted) {
+        _permit(tokenA, permitA);
+        _permit(tokenB, permitB);
+        return _addLiquidityChecked(tokenA, tokenB, fee, amountADesired, amountBDesired, amountAMin, amountBMin, to, deadline);
     }
 
     /**
-     * @notice Remove liquidity from a pool for a token pair
+     * @notice Remove liquidity from the pool of a token pair and fee tier
      * @dev LP tokens should be approved to be transferred by this contract
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param liquidityAmt Amount of LP tokens to burn
      * @param amountAMin Minimum amount of tokenA that must be received (slippage protection)
      * @param amountBMin Minimum amount of tokenB that must be received (slippage protection)
@@ -204,11 +368,12 @@ contract SimpleSwap is ReentrancyGuard {
      * - Liquidity amount is zero
      * - Deadline has passed
      * - Slippage is too high (amounts are below minimums)
-     * - Insufficient LP token balance
+     * - Insufficient LP token balance or allowance
      */
     function removeLiquidity(
         address tokenA,
         address tokenB,
+        uint16 fee,
         uint256 liquidityAmt,
         uint256 amountAMin,
         uint256 amountBMin,
@@ -223,6 +388,7 @@ contract SimpleSwap is ReentrancyGuard {
         RemoveLiquidityParams memory params = RemoveLiquidityParams({
             tokenA: tokenA,
             tokenB: tokenB,
+            fee: fee,
             liquidityAmt: liquidityAmt,
             amountAMin: amountAMin,
             amountBMin: amountBMin,
@@ -235,18 +401,24 @@ contract SimpleSwap is ReentrancyGuard {
 
     /**
      * @notice Swap an exact amount of input tokens for as many output tokens as possible
-     * @dev The first element of path is the input token, the second is the output token
+     * @dev path[0] is the input token and the last element is the output token; every
+     * adjacent pair must have a pool in the fee tier given for that hop. Intermediate
+     * tokens never leave the contract.
      * @param amountIn Exact amount of input tokens to swap
      * @param amountOutMin Minimum amount of output tokens that must be received (slippage protection)
-     * @param path Array with 2 elements: [inputToken, outputToken]
+     * @param path Token route: [inputToken, ...intermediateTokens, outputToken]
+     * @param fees Fee tier of the pool used for each hop, in basis points (one fewer than path)
      * @param to Address that will receive the output tokens
      * @param deadline Unix timestamp after which the transaction will revert
+     * @return amounts Input amount followed by the output amount of every hop
      * @notice Reverts if:
-     * - Path length is not exactly 2
+     * - Path has fewer than 2 tokens
+     * - Path contains the same token twice
+     * - There isn't exactly one fee per hop
      * - 'to' address is zero
-     * - Input and output tokens are the same
      * - Input amount is zero
      * - Deadline has passed
+     * - A pool along the path doesn't exist
      * - Insufficient output amount (slippage protection)
      * - Insufficient input token balance or allowance
      */
@@ -254,51 +426,316 @@ contract SimpleSwap is ReentrancyGuard {
         uint256 amountIn,
         uint256 amountOutMin,
         address[] calldata path,
+        uint16[] calldata fees,
         address to,
         uint256 deadline
     ) external nonReentrant returns (uint256[] memory amounts) {
-        require(path.length == 2, "SS:IPL");
-        require(to != address(0), "SS:IR");
-        require(path[0] != path[1], "SS:IA");
-        require(amountIn > 0, "SS:INA");
-        require(deadline >= block.timestamp, "SS:EXP");
-
-        (address input, address output) = (path[0], path[1]);
-        (uint112 reserveIn, uint112 reserveOut) = getReserves(input, output);
+        _validatePath(path, fees);
+        return _swapExactTokensForTokens(amountIn, amountOutMin, path, fees, to, deadline);
+    }
 
-        uint256 amountOut = getAmountOut(amountIn, reserveIn, reserveOut);
-        require(amountOut >= amountOutMin, "SS:IOA");
+    /**
+     * @notice Swap an exact amount of input tokens using an EIP-2612 permit instead of a prior approval
+     * @dev Same as swapExactTokensForTokens, after applying the permit to path[0]
+     * @param amountIn Exact amount of input tokens to swap
+     * @param amountOutMin Minimum amount of output tokens that must be received (slippage protection)
+     * @param path Token route: [inputToken, ...intermediateTokens, outputToken]
+     * @param fees Fee tier of the pool used for each hop, in basis points (one fewer than path)
+     * @param to Address that will receive the output tokens
+     * @param deadline Unix timestamp after which the transaction will revert
+     * @param permit Permit for the input token signed by the caller
+     * @return amounts Input amount followed by the output amount of every hop
+     * @notice A permit that fails (expired, not signed by the caller, or already used)
+     * is ignored; the transfer then reverts unless the allowance is already in place.
+     * Reverts for any reason swapExactTokensForTokens would
+     */
+    function swapExactTokensForTokensWithPermit(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        uint16[] calldata fees,
+        address to,
+        uint256 deadline,
+        PermitSignature calldata permit
+    ) external nonReentrant returns (uint256[] memory amounts) {
+        _validatePath(path, fees);
+        _permit(path[0], permit);
+        return _swapExactTokensForTokens(amountIn, amountOutMin, path, fees, to, deadline);
+    }
 
-        _update(input, output, reserveIn + amountIn, reserveOut - amountOut);
+    /**
+     * @notice Swap as few input tokens as possible for an exact amount of output tokens
+     * @dev path[0] is the input token and the last element is the output token; every
+     * adjacent pair must have a pool in the fee tier given for that hop. Intermediate
+     * tokens never leave the contract.
+     * @param amountOut Exact amount of output tokens to receive
+     * @param amountInMax Maximum amount of input tokens that can be spent (slippage protection)
+     * @param path Token route: [inputToken, ...intermediateTokens, outputToken]
+     * @param fees Fee tier of the pool used for each hop, in basis points (one fewer than path)
+     * @param to Address that will receive the output tokens
+     * @param deadline Unix timestamp after which the transaction will revert
+     * @return amounts Input amount followed by the output amount of every hop
+     * @notice Reverts if:
+     * - Path has fewer than 2 tokens
+     * - Path contains the same token twice
+     * - There isn't exactly one fee per hop
+     * - 'to' address is zero
+     * - Output amount is zero
+     * - Deadline has passed
+     * - A pool along the path doesn't exist or can't cover its output
+     * - Required input exceeds amountInMax (slippage protection)
+     * - Insufficient input token balance or allowance
+     */
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        address[] calldata path,
+        uint16[] calldata fees,
+        address to,
+        uint256 deadline
+    ) external nonReentrant returns (uint256[] memory amounts) {
+        _validatePath(path, fees);
+        require(to != address(0), "SS:IR");
+        require(amountOut > 0, "SS:INA");
+        require(deadline >= block.timestamp, "SS:EXP");
 
-        IERC20(input).safeTransferFrom(msg.sender, address(this), amountIn);
-        IERC20(output).safeTransfer(to, amountOut);
+        amounts = getAmountsIn(amountOut, path, fees);
+        require(amounts[0] <= amountInMax, "SS:EIA");
 
-        emit Swap(msg.sender, input, output, amountIn, amountOut, to);
+        _swap(amounts, path, fees, to);
+    }
 
-        amounts = new uint256[](2);
-        amounts[0] = amountIn;
-        amounts[1] = amountOut;
+    /**
+     * @notice Returns the LP token of the pool of a token pair and fee tier
+     * @param tokenA The address of the first token in the pair
+     * @param tokenB The address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @return The pool's ERC-20 LP token, or the zero address if the pool was never created
+     */
+    function getLpToken(address tokenA, address tokenB, uint16 fee) external view returns (address) {
+        (address t0, address t1) = sortTokens(tokenA, tokenB);
+        return address(lpTokens[t0][t1][fee]);
     }
 
     /**
-    * @notice Returns the liquidity token balance of a user for a given token pair
+    * @notice Returns the liquidity token balance of a user for a given token pair and fee tier
     * @param tokenA The address of the first token in the pair
     * @param tokenB The address of the second token in the pair
+    * @param fee Swap fee of the pool, in basis points
     * @param user The address of the user whose liquidity balance is being queried
-    * @return The amount of LP tokens owned by the user for the tokenA-tokenB pair
+    * @return The amount of LP tokens owned by the user for the tokenA-tokenB pool of that tier
     */
     function getLiquidity(
         address tokenA, 
         address tokenB, 
+        uint16 fee,
         address user
     ) external view returns (uint256) {
         (address t0, address t1) = sortTokens(tokenA, tokenB);
-        return liquidity[t0][t1][user];
+        return _lpBalance(t0, t1, fee, user);
+    }
+
+    /**
+     * @notice Returns the full state of a pool and a user's position in it in a single call
+     * @dev Unlike getReserves, this does not revert for pools that were never initialized,
+     * it returns zeros instead so callers can use it to detect whether a pool exists
+     * @param tokenA The address of the first token in the pair
+     * @param tokenB The address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @param user The address whose LP token balance is being queried
+     * @return reserveA Reserve amount of tokenA
+     * @return reserveB Reserve amount of tokenB
+     * @return totalLiquidity Total supply of LP tokens for the pool
+     * @return userLiquidity Amount of LP tokens owned by the user for the pool
+     */
+    function getPoolInfo(
+        address tokenA,
+        address tokenB,
+        uint16 fee,
+        address user
+    ) external view returns (uint112 reserveA, uint112 reserveB, uint256 totalLiquidity, uint256 userLiquidity) {
+        (address t0, address t1) = sortTokens(tokenA, tokenB);
+        Pool storage pool = pools[t0][t1][fee];
+        (reserveA, reserveB) = tokenA == t0
+            ? (pool.reserveA, pool.reserveB)
+            : (pool.reserveB, pool.reserveA);
+        totalLiquidity = pool.totalLiquidity;
+        userLiquidity = _lpBalance(t0, t1, fee, user);
+    }
+
+    /**
+     * @notice Returns the number of pools ever created
+     * @return The length of the pool registry
+     */
+    function allPoolsLength() external view returns (uint256) {
+        return allPools.length;
+    }
+
+    /**
+     * @notice Returns a registered pool and its current state
+     * @dev Iterate indices from 0 to allPoolsLength() - 1 to enumerate every pool.
+     * Pools stay registered after all their liquidity is removed.
+     * @param index Position of the pool in the registry
+     * @return token0 Address of the smaller token in the pair
+     * @return token1 Address of the larger token in the pair
+     * @return fee Swap fee of the pool, in basis points
+     * @return reserve0 Reserve amount of token0
+     * @return reserve1 Reserve amount of token1
+     * @return totalLiquidity Total supply of LP tokens for the pool
+     * @notice Reverts if index is out of range
+     */
+    function poolAt(uint256 index)
+        external
+        view
+        returns (address token0, address token1, uint16 fee, uint112 reserve0, uint112 reserve1, uint256 totalLiquidity)
+    {
+        require(index < allPools.length, "SS:IPI");
+        PoolKey storage key = allPools[index];
+        Pool storage pool = pools[key.token0][key.token1][key.fee];
+        return (key.token0, key.token1, pool.fee, pool.reserveA, pool.reserveB, pool.totalLiquidity);
+    }
+
+    /**
+     * @notice Returns every fee tier new pools can be created with
+     * @return Swap fees in basis points, in the order they were enabled
+     */
+    function getFeeTiers() external view returns (uint16[] memory) {
+        return feeTiers;
+    }
+
+    /**
+     * @notice Returns the LP tokens the protocol fee would mint if the pool's liquidity changed now
+     * @dev Fees are only minted on liquidity changes, so this is what has accrued since the last one
+     * @param tokenA The address of the first token in the pair
+     * @param tokenB The address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @return The amount of LP tokens that would be minted to feeTo
+     */
+    function pendingProtocolFee(address tokenA, address tokenB, uint16 fee) external view returns (uint256) {
+        (address t0, address t1) = sortTokens(tokenA, tokenB);
+        Pool storage pool = pools[t0][t1][fee];
+        return _protocolFeeLiquidity(pool.reserveA, pool.reserveB, pool.totalLiquidity, pool.kLast);
+    }
+
+    // --- Admin Functions ---
+
+    /**
+     * @notice Set the address protocol fees are minted to
+     * @dev The zero address turns the protocol fee off; fees accrued but not yet minted are forfeited
+     * to LPs at the next liquidity change
+     * @param newFeeTo New fee recipient
+     */
+    function setFeeTo(address newFeeTo) external onlyOwner {
+        feeTo = newFeeTo;
+        emit FeeToUpdated(newFeeTo);
+    }
+
+    /**
+     * @notice Set the protocol share of each pool's swap fee
+     * @dev Zero turns the protocol fee off. The new share also applies to fees accrued
+     * since each pool's last liquidity change.
+     * @param newProtocolFeeBps New share in basis points of the swap fee
+     * @notice Reverts if the share is above MAX_PROTOCOL_FEE_BPS
+     */
+    function setProtocolFee(uint16 newProtocolFeeBps) external onlyOwner {
+        require(newProtocolFeeBps <= MAX_PROTOCOL_FEE_BPS, "SS:IPF");
+        protocolFeeBps = newProtocolFeeBps;
+        emit ProtocolFeeUpdated(newProtocolFeeBps);
+    }
+
+    /**
+     * @notice Let new pools be created with another swap fee
+     * @dev Fee tiers can't be disabled, so pools never lose the tier they were created with
+     * @param fee Swap fee of the new tier, in basis points
+     * @notice Reverts if the fee is zero, above MAX_FEE or already enabled
+     */
+    function enableFeeTier(uint16 fee) external onlyOwner {
+        _enableFeeTier(fee);
     }
 
     // --- Internal Functions ---
 
+    /**
+     * @dev Validates addLiquidity arguments and adds the liquidity
+     */
+    function _addLiquidityChecked(
+        address tokenA,
+        address tokenB,
+        uint16 fee,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline
+    ) private returns (uint256 amountA, uint256 amountB, uint256 liquidityMinted) {
+        require(tokenA != address(0) && tokenB != address(0), "SS:IZA");
+        require(to != address(0), "SS:IR");
+        require(amountADesired > 0 && amountBDesired > 0, "SS:INA");
+        require(deadline >= block.timestamp, "SS:EXP");
+
+        AddLiquidityParams memory params = AddLiquidityParams({
+            tokenA: tokenA,
+            tokenB: tokenB,
+            fee: fee,
+            amountADesired: amountADesired,
+            amountBDesired: amountBDesired,
+            amountAMin: amountAMin,
+            amountBMin: amountBMin,
+            to: to,
+            deadline: deadline
+        });
+
+        return _addLiquidity(params);
+    }
+
+    /**
+     * @dev Validates the remaining swapExactTokensForTokens arguments and performs
+     * the swap. Callers validate the path first.
+     */
+    function _swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        uint16[] calldata fees,
+        address to,
+        uint256 deadline
+    ) private returns (uint256[] memory amounts) {
+        require(to != address(0), "SS:IR");
+        require(amountIn > 0, "SS:INA");
+        require(deadline >= block.timestamp, "SS:EXP");
+
+        amounts = getAmountsOut(amountIn, path, fees);
+        require(amounts[amounts.length - 1] >= amountOutMin, "SS:IOA");
+
+        _swap(amounts, path, fees, to);
+    }
+
+    /**
+     * @dev Makes a swap fee available for new pools
+     * @param fee Swap fee of the tier, in basis points
+     * @notice Emits a FeeTierEnabled event
+     */
+    function _enableFeeTier(uint16 fee) private {
+        require(fee > 0 && fee <= MAX_FEE && !isFeeTierEnabled[fee], "SS:IFT");
+        isFeeTierEnabled[fee] = true;
+        feeTiers.push(fee);
+        emit FeeTierEnabled(fee);
+    }
+
+    /**
+     * @dev Applies an EIP-2612 permit from msg.sender to this contract.
+     * A zero deadline means no permit was given and the call is skipped.
+     * A failing permit is ignored so that a signature front-run from the mempool
+     * can't block the call; the following transferFrom enforces the allowance.
+     * @param token Token the permit was signed for
+     * @param p Permit signature and parameters
+     */
+    function _permit(address token, PermitSignature calldata p) private {
+        if (p.deadline == 0) return;
+        try IERC20Permit(token).permit(msg.sender, address(this), p.value, p.deadline, p.v, p.r, p.s) {} catch {}
+    }
+
     /**
      * @dev Internal function to add liquidity to a pool
      * @param p AddLiquidityParams struct containing token addresses, amounts, and other parameters
@@ -307,8 +744,10 @@ contract SimpleSwap is ReentrancyGuard {
      * @return liquidityMinted Amount of LP tokens minted
      * @notice This function:
      * - Sorts tokens to ensure consistent ordering
+     * - Mints the accrued protocol fee, if it is on
      * - Calculates optimal token amounts based on current reserves
      * - Updates reserves and total liquidity
+     * - Locks MINIMUM_LIQUIDITY on the first deposit
      * - Mints LP tokens to the specified address
      * - Emits LiquidityAdded event
      */
@@ -325,15 +764,22 @@ contract SimpleSwap is ReentrancyGuard {
 
     // Cache storage variables to minimize state reads
     (uint112 reserve0, uint112 reserve1, uint112 totalLiquidity) = (
-        pools[t0][t1].reserveA,
-        pools[t0][t1].reserveB,
-        pools[t0][t1].totalLiquidity
+        pools[t0][t1][p.fee].reserveA,
+        pools[t0][t1][p.fee].reserveB,
+        pools[t0][t1][p.fee].totalLiquidity
     );
 
+    // Mint the protocol's share of the fees collected since the last liquidity change
+    bool feeOn;
+    (feeOn, totalLiquidity) = _mintFee(t0, t1, p.fee, reserve0, reserve1, totalLiquidity);
+
     uint256 amount0;
     uint256 amount1;
 
     if (reserve0 == 0 && reserve1 == 0) {
+        if (!isRegisteredPool[t0][t1][p.fee]) {
+            _registerPool(t0, t1, p.fee);
+        }
         (amount0, amount1) = p.tokenA == t0
             ? (p.amountADesired, p.amountBDesired)
             : (p.amountBDesired, p.amountADesired);
@@ -359,9 +805,9 @@ contract SimpleSwap is ReentrancyGuard {
     // Calculate new liquidity
     uint256 newLiquidityMinted;
     if (totalLiquidity == 0) {
-        // Initial liquidity is the geometric mean of amounts
+        // Initial liquidity is the geometric mean of amounts, part of which is locked below
         newLiquidityMinted = sqrt(amount0 * amount1);
-        require(newLiquidityMinted > 0, "SS:ILM");
+        require(newLiquidityMinted > MINIMUM_LIQUIDITY, "SS:ILM");
     } else {
         // Calculate liquidity based on share of reserves
         uint256 liquidity0 = (amount0 * totalLiquidity) / reserve0;
@@ -371,20 +817,130 @@ contract SimpleSwap is ReentrancyGuard {
     }
 
     // Update state once at the end
-    pools[t0][t1].reserveA = uint112(reserve0 + amount0);
-    pools[t0][t1].reserveB = uint112(reserve1 + amount1);
-    pools[t0][t1].totalLiquidity = uint112(totalLiquidity + newLiquidityMinted);
+    pools[t0][t1][p.fee].reserveA = uint112(reserve0 + amount0);
+    pools[t0][t1][p.fee].reserveB = uint112(reserve1 + amount1);
+    pools[t0][t1][p.fee].totalLiquidity = uint112(totalLiquidity + newLiquidityMinted);
+    if (feeOn) pools[t0][t1][p.fee].kLast = (reserve0 + amount0) * (reserve1 + amount1);
     
-    // Update user's liquidity balance
-    liquidity[t0][t1][p.to] += uint112(newLiquidityMinted);
+    // Mint the pool's LP tokens to the provider, locking the minimum on the first deposit
+    if (totalLiquidity == 0) {
+        lpTokens[t0][t1][p.fee].mint(LOCKED_LIQUIDITY_HOLDER, MINIMUM_LIQUIDITY);
+        newLiquidityMinted -= MINIMUM_LIQUIDITY;
+    }
+    lpTokens[t0][t1][p.fee].mint(p.to, newLiquidityMinted);
 
     // Return amounts in the original token order
     (amountA, amountB) = p.tokenA == t0 ? (amount0, amount1) : (amount1, amount0);
     liquidityMinted = newLiquidityMinted;
 
-    emit LiquidityAdded(p.tokenA, p.tokenB, amountA, amountB, liquidityMinted, p.to);
+    emit LiquidityAdded(p.tokenA, p.tokenB, p.fee, amountA, amountB, liquidityMinted, p.to);
 }
 
+    /**
+     * @dev Records a newly initialised pool so it can be enumerated and deploys its LP token
+     * @param token0 Address of the smaller token in the pair
+     * @param token1 Address of the larger token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @notice Reverts if the fee tier isn't enabled. Emits a PoolCreated event
+     */
+    function _registerPool(address token0, address token1, uint16 fee) private {
+        require(isFeeTierEnabled[fee], "SS:IFT");
+        uint8 lpDecimals = uint8((uint256(_decimalsOf(token0)) + _decimalsOf(token1)) / 2);
+        SimpleSwapLP lpToken = new SimpleSwapLP(token0, token1, fee, lpDecimals);
+        lpTokens[token0][token1][fee] = lpToken;
+        isRegisteredPool[token0][token1][fee] = true;
+        pools[token0][token1][fee].fee = fee;
+        allPools.push(PoolKey({token0: token0, token1: token1, fee: fee}));
+        emit PoolCreated(token0, token1, fee, address(lpToken), allPools.length - 1);
+    }
+
+    /**
+     * @dev Decimals of a token, assuming 18 when it doesn't implement decimals()
+     * @param token Address of the token
+     */
+    function _decimalsOf(address token) private view returns (uint8) {
+        try IERC20Metadata(token).decimals() returns (uint8 tokenDecimals) {
+            return tokenDecimals;
+        } catch {
+            return 18;
+        }
+    }
+
+    /**
+     * @dev Mints the protocol share of the fees a pool collected since its last liquidity change.
+     * Like Uniswap V2, fee growth is measured as growth in sqrt(reserve0 * reserve1) and
+     * paid by minting LP tokens, so swaps don't pay anything extra.
+     * @param token0 Address of the smaller token in the pair
+     * @param token1 Address of the larger token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @param reserve0 Current reserve of token0
+     * @param reserve1 Current reserve of token1
+     * @param totalLiquidity Current LP supply of the pool
+     * @return feeOn Whether the protocol fee is on; the caller must then record kLast
+     * @return newTotalLiquidity LP supply after the protocol's share is minted
+     */
+    function _mintFee(
+        address token0,
+        address token1,
+        uint16 fee,
+        uint112 reserve0,
+        uint112 reserve1,
+        uint112 totalLiquidity
+    ) private returns (bool feeOn, uint112 newTotalLiquidity) {
+        Pool storage pool = pools[token0][token1][fee];
+        feeOn = feeTo != address(0) && protocolFeeBps > 0;
+        newTotalLiquidity = totalLiquidity;
+
+        if (feeOn) {
+            uint256 feeLiquidity = _protocolFeeLiquidity(reserve0, reserve1, totalLiquidity, pool.kLast);
+            if (feeLiquidity > 0) {
+                lpTokens[token0][token1][fee].mint(feeTo, feeLiquidity);
+                newTotalLiquidity = uint112(totalLiquidity + feeLiquidity);
+                pool.totalLiquidity = newTotalLiquidity;
+            }
+        } else if (pool.kLast != 0) {
+            pool.kLast = 0;
+        }
+    }
+
+    /**
+     * @dev LP tokens worth the protocol share of the growth in sqrt(k) since kLast:
+     * totalLiquidity * (rootK - rootKLast) * share / (rootK * (1 - share) + rootKLast * share)
+     * @param reserve0 Current reserve of token0
+     * @param reserve1 Current reserve of token1
+     * @param totalLiquidity Current LP supply of the pool
+     * @param kLast Product of the reserves after the last liquidity change, zero if not tracked
+     * @return Amount of LP tokens to mint to feeTo
+     */
+    function _protocolFeeLiquidity(
+        uint256 reserve0,
+        uint256 reserve1,
+        uint256 totalLiquidity,
+        uint256 kLast
+    ) private view returns (uint256) {
+        if (feeTo == address(0) || protocolFeeBps == 0 || kLast == 0) return 0;
+
+        uint256 rootK = sqrt(reserve0 * reserve1);
+        uint256 rootKLast = sqrt(kLast);
+        if (rootK <= rootKLast) return 0;
+
+        uint256 numerator = totalLiquidity * (rootK - rootKLast) * protocolFeeBps;
+        uint256 denominator = rootK * (10_000 - protocolFeeBps) + rootKLast * protocolFeeBps;
+        return numerator / denominator;
+    }
+
+    /**
+     * @dev LP token balance of a user, zero for pools that were never created
+     * @param token0 Address of the smaller token in the pair
+     * @param token1 Address of the larger token in the pair
+     * @param fee Swap fee of the pool, in basis points
+     * @param user Address whose balance is being queried
+     */
+    function _lpBalance(address token0, address token1, uint16 fee, address user) private view returns (uint256) {
+        SimpleSwapLP lpToken = lpTokens[token0][token1][fee];
+        return address(lpToken) == address(0) ? 0 : lpToken.balanceOf(user);
+    }
+
     /**
      * @dev Internal function to remove liquidity from a pool
      * @param p RemoveLiquidityParams struct containing token addresses, LP amount, and other parameters
@@ -394,8 +950,10 @@ contract SimpleSwap is ReentrancyGuard {
      * - Sorts tokens for deterministic pool access.
      * - Reads pool reserves and totalSupply with a single storage access per slot.
      * - Calculates the proportionate amounts owed based on burned LP tokens.
+     * - Mints the accrued protocol fee, if it is on.
      * - Validates user liquidity, minimum amounts, and pool state.
-     * - Updates reserves, total supply, and user LP tokens in storage.
+     * - Pulls the LP tokens from the caller using their allowance and burns them.
+     * - Updates reserves and total supply in storage.
      * - Transfers proportional token amounts to the specified recipient.
      * - Emits a LiquidityRemoved event.
      */
@@ -406,15 +964,13 @@ contract SimpleSwap is ReentrancyGuard {
         (address t0, address t1) = sortTokens(p.tokenA, p.tokenB);
         // Read all pool state in a single access per storage slot.
         (uint112 reserve0, uint112 reserve1, uint112 totalLiquidity) =
-            (pools[t0][t1].reserveA, pools[t0][t1].reserveB, pools[t0][t1].totalLiquidity);
-
-        // Scope for userLiquidity to avoid stack too deep error.
-        {
-            uint112 userLiquidity = liquidity[t0][t1][msg.sender];
-            require(totalLiquidity > 0, "SS:ITL");
-            require(userLiquidity >= p.liquidityAmt, "SS:ILB");
-            liquidity[t0][t1][msg.sender] = userLiquidity - uint112(p.liquidityAmt);
-        }
+            (pools[t0][t1][p.fee].reserveA, pools[t0][t1][p.fee].reserveB, pools[t0][t1][p.fee].totalLiquidity);
+
+        require(totalLiquidity > 0, "SS:ITL");
+        bool feeOn;
+        (feeOn, totalLiquidity) = _mintFee(t0, t1, p.fee, reserve0, reserve1, totalLiquidity);
+        SimpleSwapLP lpToken = lpTokens[t0][t1][p.fee];
+        require(lpToken.balanceOf(msg.sender) >= p.liquidityAmt, "SS:ILB");
 
         // Compute withdrawal amounts based on user's share.
         uint256 amount0 = (p.liquidityAmt * reserve0) / totalLiquidity;
@@ -423,10 +979,15 @@ contract SimpleSwap is ReentrancyGuard {
         require(amount0 >= p.amountAMin, "SS:INA");
         require(amount1 >= p.amountBMin, "SS:INB");
 
+        // Take the LP tokens through the caller's allowance, then burn them.
+        IERC20(address(lpToken)).safeTransferFrom(msg.sender, address(this), p.liquidityAmt);
+        lpToken.burn(address(this), p.liquidityAmt);
+
         // Update reserves and supply after withdrawal.
-        pools[t0][t1].reserveA = uint112(reserve0 - amount0);
-        pools[t0][t1].reserveB = uint112(reserve1 - amount1);
-        pools[t0][t1].totalLiquidity = uint112(totalLiquidity - p.liquidityAmt);
+        pools[t0][t1][p.fee].reserveA = uint112(reserve0 - amount0);
+        pools[t0][t1][p.fee].reserveB = uint112(reserve1 - amount1);
+        pools[t0][t1][p.fee].totalLiquidity = uint112(totalLiquidity - p.liquidityAmt);
+        if (feeOn) pools[t0][t1][p.fee].kLast = (reserve0 - amount0) * (reserve1 - amount1);
 
         // Transfer withdrawn tokens to recipient.
         IERC20(t0).safeTransfer(p.to, amount0);
@@ -435,22 +996,23 @@ contract SimpleSwap is ReentrancyGuard {
         // Maintain output order as per requested tokens.
         (amountA, amountB) = p.tokenA == t0 ? (amount0, amount1) : (amount1, amount0);
 
-        emit LiquidityRemoved(p.tokenA, p.tokenB, amountA, amountB, p.liquidityAmt, p.to);
+        emit LiquidityRemoved(p.tokenA, p.tokenB, p.fee, amountA, amountB, p.liquidityAmt, p.to);
     }
 
     // --- View Functions ---
 
     /**
-     * @notice Get the reserves for a token pair
+     * @notice Get the reserves of the pool of a token pair and fee tier
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @return reserveA Reserve amount of tokenA
      * @return reserveB Reserve amount of tokenB
      * @notice Reverts if reserves are not initialized (pool doesn't exist)
      */
-    function getReserves(address tokenA, address tokenB) public view returns (uint112 reserveA, uint112 reserveB) {
+    function getReserves(address tokenA, address tokenB, uint16 fee) public view returns (uint112 reserveA, uint112 reserveB) {
         (address t0, address t1) = sortTokens(tokenA, tokenB);
-        (uint112 reserve0, uint112 reserve1) = (pools[t0][t1].reserveA, pools[t0][t1].reserveB);
+        (uint112 reserve0, uint112 reserve1) = (pools[t0][t1][fee].reserveA, pools[t0][t1][fee].reserveB);
         require(reserve0 > 0 && reserve1 > 0, "SS:RNI");
         return tokenA == t0 ? (reserve0, reserve1) : (reserve1, reserve0);
     }
@@ -460,36 +1022,119 @@ contract SimpleSwap is ReentrancyGuard {
      * @param amountIn Amount of input tokens
      * @param reserveIn Reserve amount of input token
      * @param reserveOut Reserve amount of output token
+     * @param fee Swap fee of the pool, in basis points
      * @return amountOut Amount of output tokens that will be received
      * @notice Reverts if:
      * - Input amount is zero
      * - Reserves are zero
-     * @dev Uses constant product formula with 0.3% fee:
-     * amountOut = (amountIn * 997 * reserveOut) / (reserveIn * 1000 + amountIn * 997)
+     * - Fee is 100% or more
+     * @dev Uses constant product formula with the pool's fee (997/1000 for the 0.3% tier):
+     * amountOut = (amountIn * (10000 - fee) * reserveOut) / (reserveIn * 10000 + amountIn * (10000 - fee))
      */
-    function getAmountOut(uint256 amountIn, uint256 reserveIn, uint256 reserveOut) public pure returns (uint256 amountOut) {
+    function getAmountOut(uint256 amountIn, uint256 reserveIn, uint256 reserveOut, uint16 fee) public pure returns (uint256 amountOut) {
         require(amountIn > 0, "SS:INA");
         require(reserveIn > 0 && reserveOut > 0, "SS:IL");
+        require(fee < FEE_DENOMINATOR, "SS:IFT");
         
-        // Apply 0.3% fee (997/1000)
-        uint256 amountInWithFee = amountIn * 997;
+        // Apply the fee, e.g. 9970/10000 for 0.3%
+        uint256 amountInWithFee = amountIn * (FEE_DENOMINATOR - fee);
         uint256 numerator = amountInWithFee * reserveOut;
-        uint256 denominator = (reserveIn * 1000) + amountInWithFee;
+        uint256 denominator = (reserveIn * FEE_DENOMINATOR) + amountInWithFee;
         
         amountOut = numerator / denominator;
     }
 
     /**
-     * @notice Get the current price ratio between two tokens
+     * @notice Calculate the input amount required to receive a given output amount
+     * @param amountOut Amount of output tokens desired
+     * @param reserveIn Reserve amount of input token
+     * @param reserveOut Reserve amount of output token
+     * @param fee Swap fee of the pool, in basis points
+     * @return amountIn Amount of input tokens that must be provided
+     * @notice Reverts if:
+     * - Output amount is zero
+     * - Reserves are zero or the output reserve can't cover amountOut
+     * - Fee is 100% or more
+     * @dev Inverse of getAmountOut with the same fee, rounded up in favour of the pool:
+     * amountIn = (reserveIn * amountOut * 10000) / ((reserveOut - amountOut) * (10000 - fee)) + 1
+     */
+    function getAmountIn(uint256 amountOut, uint256 reserveIn, uint256 reserveOut, uint16 fee) public pure returns (uint256 amountIn) {
+        require(amountOut > 0, "SS:INA");
+        require(reserveIn > 0 && reserveOut > amountOut, "SS:IL");
+        require(fee < FEE_DENOMINATOR, "SS:IFT");
+
+        uint256 numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+        uint256 denominator = (reserveOut - amountOut) * (FEE_DENOMINATOR - fee);
+
+        amountIn = (numerator / denominator) + 1;
+    }
+
+    /**
+     * @notice Quote every hop of an exact-input swap along a path
+     * @param amountIn Amount of path[0] tokens to swap
+     * @param path Token route: [inputToken, ...intermediateTokens, outputToken]
+     * @param fees Fee tier of the pool used for each hop, in basis points
+     * @return amounts amounts[0] is amountIn, amounts[i + 1] is the output of hop i
+     * @notice Reverts if:
+     * - Path has fewer than 2 tokens or contains the same token twice
+     * - There isn't exactly one fee per hop
+     * - A pool along the path doesn't exist
+     * - Input amount is zero
+     */
+    function getAmountsOut(
+        uint256 amountIn,
+        address[] memory path,
+        uint16[] memory fees
+    ) public view returns (uint256[] memory amounts) {
+        _validatePath(path, fees);
+
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            (uint112 reserveIn, uint112 reserveOut) = getReserves(path[i], path[i + 1], fees[i]);
+            amounts[i + 1] = getAmountOut(amounts[i], reserveIn, reserveOut, fees[i]);
+        }
+    }
+
+    /**
+     * @notice Quote every hop of an exact-output swap along a path
+     * @param amountOut Amount of the last path token to receive
+     * @param path Token route: [inputToken, ...intermediateTokens, outputToken]
+     * @param fees Fee tier of the pool used for each hop, in basis points
+     * @return amounts amounts[0] is the required input, amounts[i + 1] is the output of hop i
+     * @notice Reverts if:
+     * - Path has fewer than 2 tokens or contains the same token twice
+     * - There isn't exactly one fee per hop
+     * - A pool along the path doesn't exist or can't cover its output
+     * - Output amount is zero
+     */
+    function getAmountsIn(
+        uint256 amountOut,
+        address[] memory path,
+        uint16[] memory fees
+    ) public view returns (uint256[] memory amounts) {
+        _validatePath(path, fees);
+
+        amounts = new uint256[](path.length);
+        amounts[amounts.length - 1] = amountOut;
+        for (uint256 i = path.length - 1; i > 0; i--) {
+            (uint112 reserveIn, uint112 reserveOut) = getReserves(path[i - 1], path[i], fees[i - 1]);
+            amounts[i - 1] = getAmountIn(amounts[i], reserveIn, reserveOut, fees[i - 1]);
+        }
+    }
+
+    /**
+     * @notice Get the current price ratio between two tokens in the pool of a fee tier
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @return price Price of tokenA in terms of tokenB, scaled by 1e18
      * @notice Reverts if reserves are not initialized (pool doesn't exist)
      * @dev Price is calculated as (reserveB * 1e18) / reserveA when tokenA is token0
      */
-    function getPrice(address tokenA, address tokenB) external view returns (uint256 price) {
+    function getPrice(address tokenA, address tokenB, uint16 fee) external view returns (uint256 price) {
         (address t0, address t1) = sortTokens(tokenA, tokenB);
-        (uint112 reserve0, uint112 reserve1) = (pools[t0][t1].reserveA, pools[t0][t1].reserveB);
+        (uint112 reserve0, uint112 reserve1) = (pools[t0][t1][fee].reserveA, pools[t0][t1][fee].reserveB);
         require(reserve0 > 0 && reserve1 > 0, "SS:RNI");
         price = tokenA == t0
             ? (uint256(reserve1) * 1e18) / reserve0
@@ -533,10 +1178,56 @@ contract SimpleSwap is ReentrancyGuard {
         require(token0 != address(0), "SS:IZA");
     }
 
+    /**
+     * @dev Checks that a swap path has at least one hop and never revisits a token.
+     * Revisiting a token would route through the same pool twice, which the
+     * up-front quotes in getAmountsOut/getAmountsIn can't price correctly.
+     * @param path Token route to validate
+     * @param fees Fee tier of each hop
+     * @notice Reverts if:
+     * - Path has fewer than 2 tokens
+     * - There isn't exactly one fee per hop
+     * - Any token appears more than once
+     */
+    function _validatePath(address[] memory path, uint16[] memory fees) private pure {
+        require(path.length >= 2, "SS:IPL");
+        require(fees.length == path.length - 1, "SS:IFL");
+        for (uint256 i = 1; i < path.length; i++) {
+            for (uint256 j = 0; j < i; j++) {
+                require(path[i] != path[j], "SS:IA");
+            }
+        }
+    }
+
+    /**
+     * @dev Executes a quoted swap hop by hop, then settles the input and output transfers
+     * @param amounts Quoted amounts from getAmountsOut/getAmountsIn
+     * @param path Token route matching the quote
+     * @param fees Fee tier of each hop matching the quote
+     * @param to Address that will receive the final output tokens
+     * @notice Intermediate hops only move reserves between pools; their Swap
+     * events name this contract as the recipient.
+     */
+    function _swap(uint256[] memory amounts, address[] memory path, uint16[] memory fees, address to) private {
+        uint256 lastHop = path.length - 2;
+        for (uint256 i = 0; i <= lastHop; i++) {
+            (address input, address output) = (path[i], path[i + 1]);
+            (uint112 reserveIn, uint112 reserveOut) = getReserves(input, output, fees[i]);
+
+            _update(input, output, fees[i], reserveIn + amounts[i], reserveOut - amounts[i + 1]);
+
+            emit Swap(msg.sender, input, output, fees[i], amounts[i], amounts[i + 1], i == lastHop ? to : address(this));
+        }
+
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(this), amounts[0]);
+        IERC20(path[path.length - 1]).safeTransfer(to, amounts[amounts.length - 1]);
+    }
+
     /**
      * @dev Internal function to update the reserves for a token pair
      * @param tokenA Address of the first token in the pair
      * @param tokenB Address of the second token in the pair
+     * @param fee Swap fee of the pool, in basis points
      * @param reserveA New reserve amount for tokenA
      * @param reserveB New reserve amount for tokenB
      * @notice This function:
@@ -544,12 +1235,12 @@ contract SimpleSwap is ReentrancyGuard {
      * - Updates the reserves in storage
      * - Performs overflow checks
      */
-    function _update(address tokenA, address tokenB, uint256 reserveA, uint256 reserveB) private {
+    function _update(address tokenA, address tokenB, uint16 fee, uint256 reserveA, uint256 reserveB) private {
         // Sort tokens to ensure consistent ordering
         (address token0, address token1) = sortTokens(tokenA, tokenB);
         
         // Cache storage reference to minimize state reads
-        Pool storage pool = pools[token0][token1];
+        Pool storage pool = pools[token0][token1][fee];
         
         // Check for overflow before updating reserves
         require(reserveA <= type(uint112).max && reserveB <= type(uint112).max, "SS:OVERFLOW");
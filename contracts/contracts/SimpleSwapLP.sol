@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title SimpleSwapLP
+ * @author Feerdus95
+ * @notice ERC-20 liquidity token of a single SimpleSwap pool (a token pair and fee tier)
+ * @dev Deployed by SimpleSwap when a pool is created. Only that SimpleSwap can mint
+ * and burn, so the total supply always matches the pool's totalLiquidity.
+ * Initial liquidity is sqrt(amount0 * amount1), so balances carry the mean of
+ * both tokens' decimals; the token reports that instead of the usual 18.
+ */
+contract SimpleSwapLP is ERC20 {
+    /// @notice SimpleSwap contract that created this token and manages its supply
+    address public immutable swap;
+
+    /// @notice Smaller token of the pool
+    address public immutable token0;
+
+    /// @notice Larger token of the pool
+    address public immutable token1;
+
+    /// @notice Swap fee of the pool, in basis points
+    uint16 public immutable fee;
+
+    uint8 private immutable _decimals;
+
+    /**
+     * @param token0_ Address of the smaller token in the pair
+     * @param token1_ Address of the larger token in the pair
+     * @param fee_ Swap fee of the pool, in basis points
+     * @param decimals_ Decimals of LP balances
+     */
+    constructor(address token0_, address token1_, uint16 fee_, uint8 decimals_) ERC20("SimpleSwap LP", "SS-LP") {
+        swap = msg.sender;
+        token0 = token0_;
+        token1 = token1_;
+        fee = fee_;
+        _decimals = decimals_;
+    }
+
+    /**
+     * @dev Restricts minting and burning to the SimpleSwap contract
+     */
+    modifier onlySwap() {
+        require(msg.sender == swap, "SS:FORBIDDEN");
+        _;
+    }
+
+    /**
+     * @notice Returns the decimals of LP balances
+     * @return Mean of the pool tokens' decimals, rounded down
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /**
+     * @notice Mint LP tokens for liquidity added to the pool
+     * @param to Address that will receive the LP tokens
+     * @param amount Amount of LP tokens to mint
+     */
+    function mint(address to, uint256 amount) external onlySwap {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Burn LP tokens for liquidity removed from the pool
+     * @param from Address holding the LP tokens
+     * @param amount Amount of LP tokens to burn
+     */
+    function burn(address from, uint256 amount) external onlySwap {
+        _burn(from, amount);
+    }
+}
@@ -9,8 +9,11 @@ contract TestHelper is SimpleSwap {
     function testSqrt(uint256 y) external pure returns (uint256) {
         return sqrt(y);
     }
-    function testGetAmountOut(uint256 a, uint256 b, uint256 c) external pure returns (uint256) {
-        return getAmountOut(a, b, c);
+    function testGetAmountOut(uint256 a, uint256 b, uint256 c, uint16 fee) external pure returns (uint256) {
+        return getAmountOut(a, b, c, fee);
+    }
+    function testGetAmountIn(uint256 a, uint256 b, uint256 c, uint16 fee) external pure returns (uint256) {
+        return getAmountIn(a, b, c, fee);
     }
     function testSortTokens(address a, address b) external pure returns (address, address) {
         return sortTokens(a, b);
@@ -2,19 +2,21 @@
 pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title TestTokenA
  * @notice Test ERC-20 Token A for SimpleSwap testing
- * @dev This is a test token with 18 decimals and public mint function
+ * @dev This is a test token with 18 decimals and public mint function.
+ * Supports EIP-2612 permit so approvals can be signed off-chain
  */
-contract TestTokenA is ERC20 {
+contract TestTokenA is ERC20, ERC20Permit {
     uint8 private constant _DECIMALS = 18;
 
     /**
      * @dev Mints initial supply to the deployer (1 million tokens)
      */
-    constructor() ERC20("TestTokenA", "TTA") {
+    constructor() ERC20("TestTokenA", "TTA") ERC20Permit("TestTokenA") {
         // Mint initial supply to deployer
         uint256 initialSupply = 1_000_000 * 10**decimals();
         _mint(msg.sender, initialSupply);
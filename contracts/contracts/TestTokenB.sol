@@ -2,19 +2,21 @@
 pragma solidity ^0.8.0;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 /**
  * @title TestTokenB
  * @notice Test ERC-20 Token B for SimpleSwap testing (like USDC)
- * @dev This is a test token with 6 decimals and public mint function
+ * @dev This is a test token with 6 decimals and public mint function.
+ * Supports EIP-2612 permit so approvals can be signed off-chain
  */
-contract TestTokenB is ERC20 {
+contract TestTokenB is ERC20, ERC20Permit {
     uint8 private constant _DECIMALS = 6;
 
     /**
      * @dev Mints initial supply to the deployer (1 million tokens)
      */
-    constructor() ERC20("TestTokenB", "TTB") {
+    constructor() ERC20("TestTokenB", "TTB") ERC20Permit("TestTokenB") {
         // Mint initial supply to deployer
         uint256 initialSupply = 1_000_000 * 10**decimals();
         _mint(msg.sender, initialSupply);
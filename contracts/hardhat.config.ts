@@ -5,6 +5,10 @@ import "@nomicfoundation/hardhat-viem/types";
 import '@typechain/hardhat';
 import '@nomicfoundation/hardhat-ethers';
 
+// Network settings come from the environment so no keys live in the repo:
+//   SEPOLIA_RPC_URL, DEPLOYER_PRIVATE_KEY (Sepolia), LOCALHOST_RPC_URL (optional)
+const deployerAccounts = process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : [];
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.20",
@@ -17,6 +21,17 @@ const config: HardhatUserConfig = {
       evmVersion: "paris",
     },
   },
+  networks: {
+    localhost: {
+      url: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
+    sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || "https://rpc.sepolia.org",
+      chainId: 11155111,
+      accounts: deployerAccounts,
+    },
+  },
   typechain: {
     outDir: 'typechain-types',
     target: 'ethers-v6',
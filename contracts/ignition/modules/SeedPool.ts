@@ -0,0 +1,30 @@
+// Deploys everything in SimpleSwapModule and adds the first TTA/TTB
+// liquidity, in the 0.3% fee tier, from the deployer's initial supply.
+// Deploy SimpleSwap.ts instead to skip seeding.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { maxUint256, parseEther, parseUnits } from "viem";
+import SimpleSwapModule from "./SimpleSwap";
+
+const SeedPoolModule = buildModule("SeedPoolModule", (m) => {
+  const { simpleSwap, tokenA, tokenB } = m.useModule(SimpleSwapModule);
+
+  const deployer = m.getAccount(0);
+  const amountA = m.getParameter("amountA", parseEther("10000"));
+  const amountB = m.getParameter("amountB", parseUnits("10000", 6));
+  const fee = m.getParameter("fee", 30);
+
+  const approveA = m.call(tokenA, "approve", [simpleSwap, amountA], { id: "ApproveTokenA" });
+  const approveB = m.call(tokenB, "approve", [simpleSwap, amountB], { id: "ApproveTokenB" });
+
+  m.call(
+    simpleSwap,
+    "addLiquidity",
+    [tokenA, tokenB, fee, amountA, amountB, 0n, 0n, deployer, maxUint256],
+    { after: [approveA, approveB] }
+  );
+
+  return { simpleSwap, tokenA, tokenB };
+});
+
+export default SeedPoolModule;
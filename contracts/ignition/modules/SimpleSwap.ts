@@ -0,0 +1,11 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import TestTokensModule from "./TestTokens";
+
+const SimpleSwapModule = buildModule("SimpleSwapModule", (m) => {
+  const { tokenA, tokenB } = m.useModule(TestTokensModule);
+  const simpleSwap = m.contract("SimpleSwap");
+
+  return { simpleSwap, tokenA, tokenB };
+});
+
+export default SimpleSwapModule;
@@ -0,0 +1,12 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Deploys the two faucet tokens used by the frontend. The deployer receives
+// each token's initial supply.
+const TestTokensModule = buildModule("TestTokensModule", (m) => {
+  const tokenA = m.contract("TestTokenA");
+  const tokenB = m.contract("TestTokenB");
+
+  return { tokenA, tokenB };
+});
+
+export default TestTokensModule;
@@ -0,0 +1,54 @@
+// Copies the addresses of the latest Ignition deployment on the selected
+// network into frontend/lib/deployments.json, keyed by chain ID, so the
+// frontend picks them up without code changes.
+//
+//   npx hardhat run scripts/export-addresses.ts --network sepolia
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import hre from "hardhat";
+
+const CONTRACTS = ["SimpleSwap", "TestTokenA", "TestTokenB"] as const;
+
+const OUTPUT_FILE = path.join(__dirname, "..", "..", "frontend", "lib", "deployments.json");
+
+async function main() {
+  const publicClient = await hre.viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const deploymentFile = path.join(
+    __dirname,
+    "..",
+    "ignition",
+    "deployments",
+    `chain-${chainId}`,
+    "deployed_addresses.json"
+  );
+  if (!existsSync(deploymentFile)) {
+    throw new Error(`No Ignition deployment found for chain ${chainId}. Deploy a module first.`);
+  }
+
+  // Ignition keys futures as "<Module>#<Contract>"
+  const deployed: Record<string, string> = JSON.parse(readFileSync(deploymentFile, "utf8"));
+  const addresses: Record<string, string> = {};
+  for (const [futureId, address] of Object.entries(deployed)) {
+    const name = futureId.split("#")[1];
+    if ((CONTRACTS as readonly string[]).includes(name)) addresses[name] = address;
+  }
+
+  const missing = CONTRACTS.filter((name) => !addresses[name]);
+  if (missing.length > 0) {
+    throw new Error(`Deployment on chain ${chainId} is missing ${missing.join(", ")}`);
+  }
+
+  const existing = existsSync(OUTPUT_FILE) ? JSON.parse(readFileSync(OUTPUT_FILE, "utf8")) : {};
+  existing[chainId] = Object.fromEntries(CONTRACTS.map((name) => [name, addresses[name]]));
+  writeFileSync(OUTPUT_FILE, JSON.stringify(existing, null, 2) + "\n");
+
+  console.log(`Wrote chain ${chainId} addresses to ${path.relative(process.cwd(), OUTPUT_FILE)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,9 +1,14 @@
 import { expect } from "chai";
 import hre from "hardhat";
-import { parseEther, getAddress, parseUnits } from "viem";
+import { parseEther, getAddress, parseUnits, decodeErrorResult, hexToSignature } from "viem";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
 
 describe("SimpleSwap", function () {
+  // Fee tier of the pools most tests use (0.3%)
+  const FEE = 30;
+
   // We define a fixture to reuse the same setup in every test.
   // We use loadFixture to run this setup once, snapshot that state,
   // and reset Hardhat Network to that snapshot in every test.
@@ -41,6 +46,30 @@ describe("SimpleSwap", function () {
     };
   }
 
+  // Removing liquidity pulls LP tokens with transferFrom, so they need an allowance first
+  async function getLpToken(dex: Awaited<ReturnType<typeof deployContracts>>["dex"], tokenA: `0x${string}`, tokenB: `0x${string}`, fee = FEE) {
+    return hre.viem.getContractAt("SimpleSwapLP", await dex.read.getLpToken([tokenA, tokenB, fee]));
+  }
+
+  // One TTA/TTB pool in the default tier, seeded by owner with 100 TTA and 200 TTB.
+  // deadline is an hour after the fixture's block, now is that block's timestamp.
+  async function deployWithPool() {
+    const fixture = await deployContracts();
+    const { tokenA, tokenB, dex, owner, publicClient } = fixture;
+    const { timestamp } = await publicClient.getBlock();
+    const deadline = timestamp + 3600n;
+
+    await tokenA.write.approve([dex.address, parseEther("100")]);
+    await tokenB.write.approve([dex.address, parseUnits("200", 6)]);
+    await dex.write.addLiquidity([
+      tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+      0n, 0n, owner.account.address, deadline
+    ]);
+
+    const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+    return { ...fixture, lpToken, deadline, now: timestamp };
+  }
+
   describe("Add Liquidity", function () {
     it("should add liquidity successfully", async function () {
       const { tokenA, tokenB, dex, owner, publicClient } = await loadFixture(deployContracts);
@@ -55,6 +84,7 @@ describe("SimpleSwap", function () {
       const hash = await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         parseEther("100"),
@@ -68,7 +98,7 @@ describe("SimpleSwap", function () {
       expect(receipt.status).to.equal("success");
 
       // Verify the pool was created with correct reserves
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]) as [bigint, bigint];
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]) as [bigint, bigint];
       const [reserveA, reserveB] = reserves;
       expect(reserveA).to.equal(parseEther("100"));
       expect(reserveB).to.equal(parseUnits("200", 6));
@@ -85,6 +115,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("1000", 6),
         0, 
@@ -100,6 +131,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("50"),
         parseUnits("200", 6), // More than optimal proportion
         0, 
@@ -118,7 +150,8 @@ describe("SimpleSwap", function () {
 
       await dex.write.addLiquidity([
         tokenA.address, 
-        tokenB.address,
+        tokenB.address, 
+        FEE,
         parseEther("100"), 
         parseUnits("200", 6),
         0, 
@@ -134,6 +167,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("30"),
         parseUnits("100", 6), // Higher ratio of B:A
         0, 
@@ -154,6 +188,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         0, 
@@ -175,6 +210,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           parseEther("1"),
           parseUnits("1", 6),
           parseEther("0.6"), // amountAMin is higher than optimal (0.5)
@@ -201,6 +237,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity([
           "0x0000000000000000000000000000000000000000",
           tokenB.address,
+          FEE,
           0,
           parseUnits("1", 6),
           0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
@@ -218,7 +255,7 @@ describe("SimpleSwap", function () {
       
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address, 0, parseUnits("1", 6), 0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
+          tokenA.address, tokenB.address, FEE, 0, parseUnits("1", 6), 0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: owner.account });
         expect.fail("Should have reverted with 'SS:INA'");
       } catch (error: any) {
@@ -233,7 +270,7 @@ describe("SimpleSwap", function () {
       
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address, parseEther("1"), 0, 0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
+          tokenA.address, tokenB.address, FEE, parseEther("1"), 0, 0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: owner.account });
         expect.fail("Should have reverted with 'SS:INA'");
       } catch (error: any) {
@@ -248,7 +285,7 @@ describe("SimpleSwap", function () {
       
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address, parseEther("1"), parseUnits("1", 6), 0, 0, "0x0000000000000000000000000000000000000000", BigInt(Math.floor(Date.now() / 1000) + 300)
+          tokenA.address, tokenB.address, FEE, parseEther("1"), parseUnits("1", 6), 0, 0, "0x0000000000000000000000000000000000000000", BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: owner.account });
         expect.fail("Should have reverted with 'SS:IR'");
       } catch (error: any) {
@@ -263,7 +300,7 @@ describe("SimpleSwap", function () {
       
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address, parseEther("1"), parseUnits("1", 6), 0, 0, owner.account.address, 1 // expired
+          tokenA.address, tokenB.address, FEE, parseEther("1"), parseUnits("1", 6), 0, 0, owner.account.address, 1 // expired
         ], { account: owner.account });
         expect.fail("Should have reverted with 'SS:EXP'");
       } catch (error: any) {
@@ -282,6 +319,7 @@ describe("SimpleSwap", function () {
       const hash = await dex.write.addLiquidity([
         tokenB.address,
         tokenA.address,
+        FEE,
         parseUnits("200", 6),
         parseEther("100"),
         parseUnits("200", 6),
@@ -292,7 +330,7 @@ describe("SimpleSwap", function () {
     
       const receipt = await publicClient.getTransactionReceipt({ hash });
       expect(receipt.status).to.equal("success");
-      const reserves = await dex.read.getReserves([tokenB.address, tokenA.address]);
+      const reserves = await dex.read.getReserves([tokenB.address, tokenA.address, FEE]);
       expect(reserves[0]).to.equal(parseUnits("200", 6));
       expect(reserves[1]).to.equal(parseEther("100"));
     });
@@ -309,7 +347,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("100")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("200", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("100"), parseUnits("200", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 500)
@@ -325,7 +363,7 @@ describe("SimpleSwap", function () {
       // amount0Optimal (5000) > amountADesired (1) => should revert with SS:INA
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address,
+          tokenA.address, tokenB.address, FEE,
           parseEther("1"), parseUnits("10000", 6), // big B, small A
           parseEther("1000"), 0, // amountAMin = 1000, amountBMin = 0
           owner.account.address,
@@ -346,7 +384,7 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("1000", 6)], { account: owner.account });
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("100"), parseUnits("1000", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 500)
@@ -358,7 +396,7 @@ describe("SimpleSwap", function () {
     
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address,
+          tokenA.address, tokenB.address, FEE,
           parseEther("10"), parseUnits("200", 6),
           parseEther("9.5"), // amountAMin set above optimal
           0,
@@ -386,6 +424,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           1n,
           1n,
           0,
@@ -410,6 +449,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("100", 6),
         0, 0, owner.account.address,
@@ -427,6 +467,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           1n,
           1n,
           0,
@@ -451,6 +492,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("100", 6),
         0, 0, owner.account.address,
@@ -464,6 +506,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("50"),
         parseUnits("10", 6),
         0, 0, owner.account.address,
@@ -480,19 +523,22 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: owner.account });
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("10"), parseUnits("20", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 300)
       ], { account: owner.account });
     
       const lpBalance = await dex.read.getLiquidity([
-        tokenA.address, tokenB.address, owner.account.address
+        tokenA.address, tokenB.address, FEE, owner.account.address
       ]);
     
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+      await lpToken.write.approve([dex.address, lpBalance], { account: owner.account });
+
       // Remove liquidity with parameters inverted to make tokenA != t0
       const result = await dex.write.removeLiquidity([
-        tokenB.address, tokenA.address,
+        tokenB.address, tokenA.address, FEE,
         lpBalance,
         0, 0,
         owner.account.address,
@@ -510,7 +556,7 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("1000", 6)], { account: owner.account })
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("100"), parseUnits("1000", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 500)
@@ -522,7 +568,7 @@ describe("SimpleSwap", function () {
     
       try {
         await dex.write.addLiquidity([
-          tokenA.address, tokenB.address,
+          tokenA.address, tokenB.address, FEE,
           parseEther("10"), parseUnits("200", 6),
           0, parseUnits("300", 6), // amountBMin más alto que amount1Optimal
           owner.account.address,
@@ -543,7 +589,7 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("100", 6)], { account: owner.account })
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("100"), parseUnits("100", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 500)
@@ -554,7 +600,7 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("100", 6)], { account: owner.account })
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("10"), parseUnits("100", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 300)
@@ -569,20 +615,23 @@ describe("SimpleSwap", function () {
       await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: owner.account })
     
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address,
+        tokenA.address, tokenB.address, FEE,
         parseEther("10"), parseUnits("20", 6),
         0, 0, owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 300)
       ], { account: owner.account })
     
       const lpBalance = await dex.read.getLiquidity([
-        tokenA.address, tokenB.address, owner.account.address
+        tokenA.address, tokenB.address, FEE, owner.account.address
       ])
     
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address)
+      await lpToken.write.approve([dex.address, lpBalance], { account: owner.account })
+
       // Reverse token order to trigger the else path (tokenA == t1)
       await expect(
         dex.write.removeLiquidity([
-          tokenB.address, tokenA.address,
+          tokenB.address, tokenA.address, FEE,
           lpBalance,
           0, 0,
           owner.account.address,
@@ -606,6 +655,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         parseEther("100"),
@@ -624,7 +674,8 @@ describe("SimpleSwap", function () {
         [
           parseEther("10"),
           parseUnits("15", 6), // minimum amount out (slippage protection)
-          [tokenA.address, tokenB.address],
+          [tokenA.address, tokenB.address], // minimum amount out (slippage protection)
+          [FEE],
           user.account.address,
           deadline
         ],
@@ -640,14 +691,15 @@ describe("SimpleSwap", function () {
       expect(balance).to.be.gt(0);
     });
 
-    it("should revert when path length is not 2", async function () {
+    it("should revert when path has fewer than 2 tokens", async function () {
       const { tokenA, dex, user } = await loadFixture(deployContracts);
       
       try {
         await dex.write.swapExactTokensForTokens([
           parseEther("1"),
           0,
-          [tokenA.address], // path too short
+          [tokenA.address],
+          [], // path too short
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: user.account });
@@ -665,6 +717,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenA.address],
+          [FEE],
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: user.account });
@@ -684,6 +737,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address, 
         tokenB.address, 
+        FEE, 
         parseEther("10"), 
         parseUnits("20", 6),
         0, 
@@ -699,7 +753,8 @@ describe("SimpleSwap", function () {
         await dex.write.swapExactTokensForTokens([
           parseEther("1"),
           parseUnits("100", 6), // much larger than real output
-          [tokenA.address, tokenB.address],
+          [tokenA.address, tokenB.address], // much larger than real output
+          [FEE],
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: user.account });
@@ -716,7 +771,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("100")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("200", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("100"), parseUnits("200", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
         parseEther("100"), parseUnits("200", 6), owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 1000)
       ]);
@@ -726,7 +781,8 @@ describe("SimpleSwap", function () {
       const swapHash = await dex.write.swapExactTokensForTokens([
         parseUnits("10", 6),
         parseEther("4"), // minimum amount out
-        [tokenB.address, tokenA.address], // reverse
+        [tokenB.address, tokenA.address], // minimum amount out
+        [FEE], // reverse
         user.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 1000)
       ], { account: user.account });
@@ -745,6 +801,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           "0x0000000000000000000000000000000000000000", // to = zero
           BigInt(Math.floor(Date.now() / 1000) + 300)
         ], { account: user.account });
@@ -762,6 +819,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           user.account.address,
           1 // expired
         ], { account: user.account });
@@ -781,6 +839,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 100)
         ], { account: user.account });
@@ -797,7 +856,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("1")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("1", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("1"), parseUnits("1", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("1"), parseUnits("1", 6),
         parseEther("1"), parseUnits("1", 6), owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 100)
       ]);
@@ -807,6 +866,7 @@ describe("SimpleSwap", function () {
           0,
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 100)
         ], { account: user.account });
@@ -824,7 +884,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("20", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
         parseEther("10"), parseUnits("20", 6), owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 100)
       ]);
@@ -833,7 +893,7 @@ describe("SimpleSwap", function () {
     
       // Calculate the exact output using the constant product formula with 0.3% fee (997/1000)
       const amountIn = parseEther("1");
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]);
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
       const reserveA = reserves[0];
       const reserveB = reserves[1];
     
@@ -847,6 +907,7 @@ describe("SimpleSwap", function () {
         amountIn,
         expectedOut,
         [tokenA.address, tokenB.address],
+        [FEE],
         user.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 100)
       ], { account: user.account });
@@ -865,7 +926,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("10", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("10", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
         parseEther("10"), parseUnits("10", 6), owner.account.address,
         BigInt(Math.floor(Date.now() / 1000) + 100)
       ]);
@@ -877,6 +938,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           user.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 100)
         ], { account: user.account })
@@ -897,6 +959,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
           tokenA.address, 
           tokenB.address, 
+          FEE, 
           parseEther("10"), 
           parseUnits("20", 6),
           0, 
@@ -941,6 +1004,7 @@ describe("SimpleSwap", function () {
             parseEther("1.1"), // More than user's balance of 1 tokenA
             0, // Minimum amount out
             [tokenA.address, tokenB.address],
+            [FEE],
             userAddress,
             BigInt(Math.floor(Date.now() / 1000) + 500)
           ],
@@ -976,6 +1040,439 @@ describe("SimpleSwap", function () {
     });
   });
 
+  describe("Exact Output Swaps", function () {
+    it("should quote getAmountIn as the inverse of getAmountOut", async function () {
+      const { dex } = await loadFixture(deployWithPool);
+      const reserveIn = parseEther("100");
+      const reserveOut = parseUnits("200", 6);
+
+      const amountIn = await dex.read.getAmountIn([parseUnits("10", 6), reserveIn, reserveOut, FEE]) as bigint;
+      const amountOut = await dex.read.getAmountOut([amountIn, reserveIn, reserveOut, FEE]) as bigint;
+      const amountOutForLess = await dex.read.getAmountOut([amountIn - 1n, reserveIn, reserveOut, FEE]) as bigint;
+
+      // amountIn is the smallest input that yields at least the requested output
+      expect(amountOut).to.be.gte(parseUnits("10", 6));
+      expect(amountOutForLess).to.be.lt(parseUnits("10", 6));
+    });
+
+    it("should swap for an exact output amount", async function () {
+      const { tokenA, tokenB, dex, user, publicClient } = await loadFixture(deployWithPool);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+      const amountOut = parseUnits("10", 6);
+
+      const expectedIn = await dex.read.getAmountIn([amountOut, parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+      const balanceABefore = await tokenA.read.balanceOf([user.account.address]) as bigint;
+      const balanceBBefore = await tokenB.read.balanceOf([user.account.address]) as bigint;
+
+      await tokenA.write.approve([dex.address, parseEther("10")], { account: user.account });
+      const hash = await dex.write.swapTokensForExactTokens([
+        amountOut,
+        parseEther("10"),
+        [tokenA.address, tokenB.address],
+        [FEE],
+        user.account.address,
+        deadline
+      ], { account: user.account });
+
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      expect(receipt.status).to.equal("success");
+
+      expect(await tokenB.read.balanceOf([user.account.address])).to.equal(balanceBBefore + amountOut);
+      expect(await tokenA.read.balanceOf([user.account.address])).to.equal(balanceABefore - expectedIn);
+
+      const [reserveA, reserveB] = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]) as [bigint, bigint];
+      expect(reserveA).to.equal(parseEther("100") + expectedIn);
+      expect(reserveB).to.equal(parseUnits("190", 6));
+    });
+
+    it("should swap for an exact output when tokens are passed in reverse order", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+      const balanceABefore = await tokenA.read.balanceOf([user.account.address]) as bigint;
+
+      await tokenB.write.approve([dex.address, parseUnits("50", 6)], { account: user.account });
+      await dex.write.swapTokensForExactTokens([
+        parseEther("5"),
+        parseUnits("50", 6),
+        [tokenB.address, tokenA.address],
+        [FEE],
+        user.account.address,
+        deadline
+      ], { account: user.account });
+
+      expect(await tokenA.read.balanceOf([user.account.address])).to.equal(balanceABefore + parseEther("5"));
+    });
+
+    it("should revert with SS:EIA if the required input exceeds amountInMax", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+      const amountOut = parseUnits("10", 6);
+      const expectedIn = await dex.read.getAmountIn([amountOut, parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+
+      await tokenA.write.approve([dex.address, parseEther("10")], { account: user.account });
+      try {
+        await dex.write.swapTokensForExactTokens([
+          amountOut,
+          expectedIn - 1n,
+          [tokenA.address, tokenB.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:EIA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:EIA");
+      }
+    });
+
+    it("should swap successfully when the required input equals amountInMax", async function () {
+      const { tokenA, tokenB, dex, user, publicClient } = await loadFixture(deployWithPool);
+      const amountOut = parseUnits("10", 6);
+      const expectedIn = await dex.read.getAmountIn([amountOut, parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+
+      await tokenA.write.approve([dex.address, expectedIn], { account: user.account });
+      const hash = await dex.write.swapTokensForExactTokens([
+        amountOut,
+        expectedIn,
+        [tokenA.address, tokenB.address],
+        [FEE],
+        user.account.address,
+        BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ], { account: user.account });
+
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      expect(receipt.status).to.equal("success");
+    });
+
+    it("should revert with SS:IL if amountOut drains the output reserve", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseUnits("200", 6),
+          parseEther("1000"),
+          [tokenA.address, tokenB.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IL'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IL");
+      }
+    });
+
+    it("should revert with SS:IPL when path has fewer than 2 tokens", async function () {
+      const { tokenA, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseUnits("1", 6),
+          parseEther("1"),
+          [tokenA.address],
+          [],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IPL'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IPL");
+      }
+    });
+
+    it("should revert with SS:IA when input and output tokens are the same", async function () {
+      const { tokenA, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseEther("1"),
+          parseEther("2"),
+          [tokenA.address, tokenA.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IA");
+      }
+    });
+
+    it("should revert with SS:IR if 'to' is zero address", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseUnits("1", 6),
+          parseEther("1"),
+          [tokenA.address, tokenB.address],
+          [FEE],
+          "0x0000000000000000000000000000000000000000",
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IR'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IR");
+      }
+    });
+
+    it("should revert with SS:INA if output amount is zero", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          0n,
+          parseEther("1"),
+          [tokenA.address, tokenB.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:INA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:INA");
+      }
+    });
+
+    it("should revert with SS:EXP if deadline is expired", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithPool);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseUnits("1", 6),
+          parseEther("1"),
+          [tokenA.address, tokenB.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) - 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:EXP'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:EXP");
+      }
+    });
+
+    it("should revert with SS:RNI if pool does not exist", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployContracts);
+
+      try {
+        await dex.write.swapTokensForExactTokens([
+          parseUnits("1", 6),
+          parseEther("1"),
+          [tokenA.address, tokenB.address],
+          [FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:RNI'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:RNI");
+      }
+    });
+  });
+
+  describe("Multi-hop Swaps", function () {
+    // A/B and B/C pools but no A/C pool, so A <-> C trades must route through B
+    async function deployWithRoute() {
+      const fixture = await deployContracts();
+      const { tokenA, tokenB, dex, owner, user } = fixture;
+      const tokenC = await hre.viem.deployContract("TestTokenA");
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenC.write.mint([user.account.address, parseEther("1000")]);
+
+      await tokenA.write.approve([dex.address, parseEther("100")]);
+      await tokenB.write.approve([dex.address, parseUnits("400", 6)]);
+      await tokenC.write.approve([dex.address, parseEther("100")]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      await dex.write.addLiquidity([
+        tokenB.address, tokenC.address, FEE, parseUnits("200", 6), parseEther("100"),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      return { ...fixture, tokenC };
+    }
+
+    it("should quote every hop with getAmountsOut", async function () {
+      const { tokenA, tokenB, tokenC, dex } = await loadFixture(deployWithRoute);
+      const amountIn = parseEther("10");
+
+      const amounts = await dex.read.getAmountsOut([amountIn, [tokenA.address, tokenB.address, tokenC.address], [FEE, FEE]]) as bigint[];
+      const firstHop = await dex.read.getAmountOut([amountIn, parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+      const secondHop = await dex.read.getAmountOut([firstHop, parseUnits("200", 6), parseEther("100"), FEE]) as bigint;
+
+      expect(amounts).to.deep.equal([amountIn, firstHop, secondHop]);
+    });
+
+    it("should quote every hop with getAmountsIn", async function () {
+      const { tokenA, tokenB, tokenC, dex } = await loadFixture(deployWithRoute);
+      const amountOut = parseEther("5");
+
+      const amounts = await dex.read.getAmountsIn([amountOut, [tokenA.address, tokenB.address, tokenC.address], [FEE, FEE]]) as bigint[];
+      const secondHop = await dex.read.getAmountIn([amountOut, parseUnits("200", 6), parseEther("100"), FEE]) as bigint;
+      const firstHop = await dex.read.getAmountIn([secondHop, parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+
+      expect(amounts).to.deep.equal([firstHop, secondHop, amountOut]);
+    });
+
+    it("should match getAmountsOut with getAmountOut for a direct path", async function () {
+      const { tokenA, tokenB, dex } = await loadFixture(deployWithRoute);
+
+      const amounts = await dex.read.getAmountsOut([parseEther("1"), [tokenA.address, tokenB.address], [FEE]]) as bigint[];
+      const amountOut = await dex.read.getAmountOut([parseEther("1"), parseEther("100"), parseUnits("200", 6), FEE]) as bigint;
+
+      expect(amounts).to.deep.equal([parseEther("1"), amountOut]);
+    });
+
+    it("should swap an exact input through an intermediate pool", async function () {
+      const { tokenA, tokenB, tokenC, dex, user } = await loadFixture(deployWithRoute);
+      const path = [tokenA.address, tokenB.address, tokenC.address];
+      const fees = [FEE, FEE];
+      const amountIn = parseEther("10");
+      const [, amountB, amountC] = await dex.read.getAmountsOut([amountIn, path, fees]) as bigint[];
+      const balanceABefore = await tokenA.read.balanceOf([user.account.address]) as bigint;
+      const balanceBBefore = await tokenB.read.balanceOf([user.account.address]) as bigint;
+      const balanceCBefore = await tokenC.read.balanceOf([user.account.address]) as bigint;
+
+      await tokenA.write.approve([dex.address, amountIn], { account: user.account });
+      await dex.write.swapExactTokensForTokens([
+        amountIn,
+        amountC,
+        path,
+        fees,
+        user.account.address,
+        BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ], { account: user.account });
+
+      expect(await tokenA.read.balanceOf([user.account.address])).to.equal(balanceABefore - amountIn);
+      expect(await tokenB.read.balanceOf([user.account.address])).to.equal(balanceBBefore);
+      expect(await tokenC.read.balanceOf([user.account.address])).to.equal(balanceCBefore + amountC);
+
+      const [reserveA, reserveBOfAB] = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]) as [bigint, bigint];
+      const [reserveBOfBC, reserveC] = await dex.read.getReserves([tokenB.address, tokenC.address, FEE]) as [bigint, bigint];
+      expect(reserveA).to.equal(parseEther("100") + amountIn);
+      expect(reserveBOfAB).to.equal(parseUnits("200", 6) - amountB);
+      expect(reserveBOfBC).to.equal(parseUnits("200", 6) + amountB);
+      expect(reserveC).to.equal(parseEther("100") - amountC);
+    });
+
+    it("should swap for an exact output through an intermediate pool", async function () {
+      const { tokenA, tokenB, tokenC, dex, user } = await loadFixture(deployWithRoute);
+      const path = [tokenC.address, tokenB.address, tokenA.address];
+      const fees = [FEE, FEE];
+      const amountOut = parseEther("5");
+      const [amountIn] = await dex.read.getAmountsIn([amountOut, path, fees]) as bigint[];
+      const balanceABefore = await tokenA.read.balanceOf([user.account.address]) as bigint;
+      const balanceCBefore = await tokenC.read.balanceOf([user.account.address]) as bigint;
+
+      await tokenC.write.approve([dex.address, amountIn], { account: user.account });
+      await dex.write.swapTokensForExactTokens([
+        amountOut,
+        amountIn,
+        path,
+        fees,
+        user.account.address,
+        BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ], { account: user.account });
+
+      expect(await tokenA.read.balanceOf([user.account.address])).to.equal(balanceABefore + amountOut);
+      expect(await tokenC.read.balanceOf([user.account.address])).to.equal(balanceCBefore - amountIn);
+    });
+
+    it("should emit a Swap event per hop with the contract as intermediate recipient", async function () {
+      const { tokenA, tokenB, tokenC, dex, user, publicClient } = await loadFixture(deployWithRoute);
+      const path = [tokenA.address, tokenB.address, tokenC.address];
+      const fees = [FEE, FEE];
+      const amountIn = parseEther("1");
+
+      await tokenA.write.approve([dex.address, amountIn], { account: user.account });
+      const hash = await dex.write.swapExactTokensForTokens([
+        amountIn,
+        0n,
+        path,
+        fees,
+        user.account.address,
+        BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ], { account: user.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const events = await dex.getEvents.Swap();
+      expect(events).to.have.lengthOf(2);
+      expect(events[0].args.tokenIn).to.equal(getAddress(tokenA.address));
+      expect(events[0].args.tokenOut).to.equal(getAddress(tokenB.address));
+      expect(events[0].args.to).to.equal(getAddress(dex.address));
+      expect(events[1].args.tokenIn).to.equal(getAddress(tokenB.address));
+      expect(events[1].args.tokenOut).to.equal(getAddress(tokenC.address));
+      expect(events[1].args.to).to.equal(getAddress(user.account.address));
+      expect(events[1].args.amountIn).to.equal(events[0].args.amountOut);
+    });
+
+    it("should revert with SS:IOA if the final output is below amountOutMin", async function () {
+      const { tokenA, tokenB, tokenC, dex, user } = await loadFixture(deployWithRoute);
+      const path = [tokenA.address, tokenB.address, tokenC.address];
+      const fees = [FEE, FEE];
+      const amounts = await dex.read.getAmountsOut([parseEther("10"), path, fees]) as bigint[];
+
+      await tokenA.write.approve([dex.address, parseEther("10")], { account: user.account });
+      try {
+        await dex.write.swapExactTokensForTokens([
+          parseEther("10"),
+          amounts[2] + 1n,
+          path,
+          fees,
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IOA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IOA");
+      }
+    });
+
+    it("should revert with SS:RNI if a hop has no pool", async function () {
+      const { tokenA, tokenC, dex } = await loadFixture(deployWithRoute);
+
+      try {
+        await dex.read.getAmountsOut([parseEther("1"), [tokenA.address, tokenC.address], [FEE]]);
+        expect.fail("Should have reverted with 'SS:RNI'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:RNI");
+      }
+    });
+
+    it("should revert with SS:IA if the path revisits a token", async function () {
+      const { tokenA, tokenB, dex, user } = await loadFixture(deployWithRoute);
+
+      await tokenA.write.approve([dex.address, parseEther("1")], { account: user.account });
+      try {
+        await dex.write.swapExactTokensForTokens([
+          parseEther("1"),
+          0n,
+          [tokenA.address, tokenB.address, tokenA.address],
+          [FEE, FEE],
+          user.account.address,
+          BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ], { account: user.account });
+        expect.fail("Should have reverted with 'SS:IA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IA");
+      }
+    });
+
+    it("should revert with SS:IPL when quoting a path with fewer than 2 tokens", async function () {
+      const { tokenA, dex } = await loadFixture(deployWithRoute);
+
+      try {
+        await dex.read.getAmountsIn([parseEther("1"), [tokenA.address], []]);
+        expect.fail("Should have reverted with 'SS:IPL'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IPL");
+      }
+    });
+  });
+
   describe("Remove Liquidity", function () {
     it("should remove liquidity successfully", async function () {
       const { tokenA, tokenB, dex, owner, publicClient } = await loadFixture(deployContracts);
@@ -989,6 +1486,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         parseEther("100"),
@@ -1001,6 +1499,7 @@ describe("SimpleSwap", function () {
       const lpBalance = await dex.read.getLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         owner.account.address
       ]) as bigint;
       
@@ -1009,9 +1508,12 @@ describe("SimpleSwap", function () {
       
       // Remove liquidity (remove half)
       const liquidityToRemove = lpBalance / 2n;
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+      await lpToken.write.approve([dex.address, liquidityToRemove]);
       const removeLiqHash = await dex.write.removeLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         liquidityToRemove,
         parseEther("45"), // Minimum amount of tokenA to receive (slippage protection)
         parseUnits("90", 6), // Minimum amount of tokenB to receive (slippage protection)
@@ -1024,7 +1526,7 @@ describe("SimpleSwap", function () {
       expect(removeLiqReceipt.status).to.equal("success");
       
       // Check that reserves were updated
-      const updatedReserves = await dex.read.getReserves([tokenA.address, tokenB.address]) as [bigint, bigint];
+      const updatedReserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]) as [bigint, bigint];
       const [reserveA, reserveB] = updatedReserves;
       expect(reserveA).to.be.lt(parseEther("100"));
       expect(reserveB).to.be.lt(parseUnits("200", 6));
@@ -1033,6 +1535,7 @@ describe("SimpleSwap", function () {
       const updatedLpBalance = await dex.read.getLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         owner.account.address
       ]) as bigint;
       expect(updatedLpBalance).to.equal(lpBalance - liquidityToRemove);
@@ -1043,7 +1546,7 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("10", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("10", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
         0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
       ]);
       
@@ -1052,6 +1555,7 @@ describe("SimpleSwap", function () {
         await dex.write.removeLiquidity([
           tokenA.address, 
           tokenB.address, 
+          FEE, 
           1n, // Try to remove 1 LP token
           0, 
           0,
@@ -1071,6 +1575,7 @@ describe("SimpleSwap", function () {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           0, 0, 0,
           owner.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 300)
@@ -1088,6 +1593,7 @@ describe("SimpleSwap", function () {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           1n, 0, 0,
           owner.account.address,
           BigInt(Math.floor(Date.now() / 1000) + 300)
@@ -1104,7 +1610,7 @@ describe("SimpleSwap", function () {
       try {
         await dex.write.removeLiquidity([
           "0x0000000000000000000000000000000000000000", // zero address
-          tokenA.address,
+          tokenA.address, FEE,
           1n,
           0,
           0,
@@ -1124,6 +1630,7 @@ describe("SimpleSwap", function () {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenA.address,
+          FEE,
           1n,
           0,
           0,
@@ -1142,13 +1649,14 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("10", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("10", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
         0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
       ]);
       try {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           1n,
           0,
           0,
@@ -1167,13 +1675,14 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("10", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("10", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
         0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
       ]);
       try {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           1n,
           0,
           0,
@@ -1192,16 +1701,17 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("20", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
         0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
       ]);
       const lpBalance = await dex.read.getLiquidity([
-        tokenA.address, tokenB.address, owner.account.address
+        tokenA.address, tokenB.address, FEE, owner.account.address
       ]);
       try {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           lpBalance,
           parseEther("100"), // exaggerated min amountA (guaranteed to fail)
           0,
@@ -1220,16 +1730,17 @@ describe("SimpleSwap", function () {
       await tokenA.write.approve([dex.address, parseEther("10")], { account: owner.account });
       await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: owner.account });
       await dex.write.addLiquidity([
-        tokenA.address, tokenB.address, parseEther("10"), parseUnits("20", 6),
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
         0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 300)
       ]);
       const lpBalance = await dex.read.getLiquidity([
-        tokenA.address, tokenB.address, owner.account.address
+        tokenA.address, tokenB.address, FEE, owner.account.address
       ]);
       try {
         await dex.write.removeLiquidity([
           tokenA.address,
           tokenB.address,
+          FEE,
           lpBalance,
           0,
           parseUnits("1000", 6), // exaggerated min amountB (guaranteed to fail)
@@ -1248,7 +1759,7 @@ describe("SimpleSwap", function () {
       const { tokenA, tokenB, dex } = await loadFixture(deployContracts);
       
       try {
-        await dex.read.getReserves([tokenA.address, tokenB.address]);
+        await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
         expect.fail("Should have reverted with 'SS:RNI'");
       } catch (error: any) {
         expect(error.message).to.include("SS:RNI");
@@ -1259,7 +1770,7 @@ describe("SimpleSwap", function () {
       const { tokenA, tokenB, dex } = await loadFixture(deployContracts);
       
       try {
-        await dex.read.getPrice([tokenA.address, tokenB.address]);
+        await dex.read.getPrice([tokenA.address, tokenB.address, FEE]);
         expect.fail("Should have reverted with 'SS:RNI'");
       } catch (error: any) {
         expect(error.message).to.include("SS:RNI");
@@ -1278,6 +1789,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         parseEther("100"),
@@ -1287,14 +1799,14 @@ describe("SimpleSwap", function () {
       ]);
 
       // Get the reserves to understand the actual values
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]) as [bigint, bigint];
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]) as [bigint, bigint];
       const [reserveA, reserveB] = reserves;
       
       console.log("Reserve A (18 decimals):", reserveA.toString());
       console.log("Reserve B (6 decimals):", reserveB.toString());
       
       // Get price of tokenA in terms of tokenB
-      const price = await dex.read.getPrice([tokenA.address, tokenB.address]);
+      const price = await dex.read.getPrice([tokenA.address, tokenB.address, FEE]);
       console.log("Actual price returned:", price.toString());
       
       // The expected price is 2000000 (2 * 10^6)
@@ -1313,6 +1825,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("100"),
         parseUnits("200", 6),
         parseEther("100"),
@@ -1322,13 +1835,13 @@ describe("SimpleSwap", function () {
       ]);
   
       // Checks price of tokenB in terms of tokenA.
-      const price = await dex.read.getPrice([tokenB.address, tokenA.address]);
+      const price = await dex.read.getPrice([tokenB.address, tokenA.address, FEE]);
       expect(price).to.equal(500000000000000000000000000000n);
     });
   
-    it("should return zero when calculating price for tokens with zero reserves after full removal", async function () {
-      // Verifies getPrice and getReserves revert after all liquidity is removed.
-      // (This simulates an edge case when pool is emptied).
+    it("should keep pricing the pool after the provider removes all their liquidity", async function () {
+      // The locked MINIMUM_LIQUIDITY keeps a little of each reserve in the pool,
+      // so it can never be emptied back to an uninitialised state.
       const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
   
       await tokenA.write.approve([dex.address, parseEther("1")]);
@@ -1338,6 +1851,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         parseEther("1"),
         parseUnits("2", 6),
         parseEther("1"),
@@ -1345,44 +1859,786 @@ describe("SimpleSwap", function () {
         owner.account.address,
         deadline
       ]);
-      // Remove all liquidity
+      // Remove all of the provider's liquidity
       const lpBalance = await dex.read.getLiquidity([
-        tokenA.address, tokenB.address, owner.account.address
+        tokenA.address, tokenB.address, FEE, owner.account.address
       ]);
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+      await lpToken.write.approve([dex.address, lpBalance]);
       await dex.write.removeLiquidity([
         tokenA.address,
         tokenB.address,
+        FEE,
         lpBalance,
         0, 0, owner.account.address,
         deadline + 1n
       ]);
   
-      try {
-        await dex.read.getPrice([tokenA.address, tokenB.address]);
-        expect.fail("Should have reverted with 'SS:RNI'");
-      } catch (error: any) {
-        expect(error.message).to.include("SS:RNI");
-      }
-      try {
-        await dex.read.getReserves([tokenA.address, tokenB.address]);
-        expect.fail("Should have reverted with 'SS:RNI'");
-      } catch (error: any) {
-        expect(error.message).to.include("SS:RNI");
-      }
+      const [reserveA, reserveB] = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
+      expect(reserveA).to.be.greaterThan(0n);
+      expect(reserveB).to.be.greaterThan(0n);
+      expect(await dex.read.getPrice([tokenA.address, tokenB.address, FEE])).to.be.greaterThan(0n);
     });
   });
 
-  describe("Edge Cases and Error Handling", function () {
-    it("should handle different decimal tokens correctly", async function () {
-      const { tokenA, tokenB } = await loadFixture(deployContracts);
-      
-      // Check token decimals
-      const decimalsA = await tokenA.read.decimals();
-      const decimalsB = await tokenB.read.decimals();
-      
-      console.log("Token A decimals:", decimalsA);
-      console.log("Token B decimals:", decimalsB);
-      
+  describe("Pool Info", function () {
+    it("should return zeros for a pool that doesn't exist instead of reverting", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      const [reserveA, reserveB, totalLiquidity, userLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address,
+        tokenB.address,
+        FEE,
+        owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      expect(reserveA).to.equal(0n);
+      expect(reserveB).to.equal(0n);
+      expect(totalLiquidity).to.equal(0n);
+      expect(userLiquidity).to.equal(0n);
+    });
+
+    it("should return reserves, total liquidity and user liquidity in one call", async function () {
+      const { tokenA, tokenB, dex, owner, user } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("100")]);
+      await tokenB.write.approve([dex.address, parseUnits("200", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      await tokenA.write.approve([dex.address, parseEther("10")], { account: user.account });
+      await tokenB.write.approve([dex.address, parseUnits("20", 6)], { account: user.account });
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, user.account.address, deadline
+      ], { account: user.account });
+
+      const [reserveA, reserveB, totalLiquidity, userLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address,
+        tokenB.address,
+        FEE,
+        user.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      const ownerLiquidity = await dex.read.getLiquidity([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as bigint;
+      const expectedUserLiquidity = await dex.read.getLiquidity([
+        tokenA.address, tokenB.address, FEE, user.account.address
+      ]) as bigint;
+
+      expect(reserveA).to.equal(parseEther("110"));
+      expect(reserveB).to.equal(parseUnits("220", 6));
+      expect(userLiquidity).to.equal(expectedUserLiquidity);
+      expect(totalLiquidity).to.equal(ownerLiquidity + expectedUserLiquidity + await dex.read.MINIMUM_LIQUIDITY());
+    });
+
+    it("should return reserves in the requested order when tokens are reversed", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("100")]);
+      await tokenB.write.approve([dex.address, parseUnits("200", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      const [reserveB, reserveA, totalLiquidity, userLiquidity] = await dex.read.getPoolInfo([
+        tokenB.address,
+        tokenA.address,
+        FEE,
+        owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      expect(reserveA).to.equal(parseEther("100"));
+      expect(reserveB).to.equal(parseUnits("200", 6));
+      expect(userLiquidity).to.equal(totalLiquidity - await dex.read.MINIMUM_LIQUIDITY());
+    });
+
+    it("should track total liquidity after a partial removal", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("100")]);
+      await tokenB.write.approve([dex.address, parseUnits("200", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      const [, , totalBefore] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+      await lpToken.write.approve([dex.address, totalBefore / 4n]);
+      await dex.write.removeLiquidity([
+        tokenA.address, tokenB.address, FEE, totalBefore / 4n,
+        0, 0, owner.account.address, deadline
+      ]);
+
+      const [reserveA, , totalAfter, userAfter] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      expect(totalAfter).to.equal(totalBefore - totalBefore / 4n);
+      expect(userAfter).to.equal(totalAfter - await dex.read.MINIMUM_LIQUIDITY());
+      expect(reserveA).to.equal(parseEther("100") - (totalBefore / 4n) * parseEther("100") / totalBefore);
+    });
+
+    it("should revert with SS:IA if tokenA and tokenB are the same address", async function () {
+      const { tokenA, dex, owner } = await loadFixture(deployContracts);
+
+      try {
+        await dex.read.getPoolInfo([tokenA.address, tokenA.address, FEE, owner.account.address]);
+        expect.fail("Should have reverted with 'SS:IA'");
+      } catch (error: any) {
+        expect(error.message).to.include("SS:IA");
+      }
+    });
+  });
+
+  describe("Pool Registry", function () {
+    it("should start with no pools", async function () {
+      const { dex } = await loadFixture(deployContracts);
+
+      expect(await dex.read.allPoolsLength()).to.equal(0n);
+    });
+
+    it("should register a pool and emit PoolCreated on first liquidity", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      await tokenA.write.approve([dex.address, parseEther("10")]);
+      await tokenB.write.approve([dex.address, parseUnits("20", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ]);
+
+      const [token0, token1] = BigInt(tokenA.address) < BigInt(tokenB.address)
+        ? [getAddress(tokenA.address), getAddress(tokenB.address)]
+        : [getAddress(tokenB.address), getAddress(tokenA.address)];
+
+      const events = await dex.getEvents.PoolCreated();
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].args.token0).to.equal(token0);
+      expect(events[0].args.token1).to.equal(token1);
+      expect(events[0].args.fee).to.equal(FEE);
+      expect(events[0].args.poolIndex).to.equal(0n);
+      expect(events[0].args.lpToken).to.equal(getAddress(await dex.read.getLpToken([tokenA.address, tokenB.address, FEE])));
+
+      expect(await dex.read.allPoolsLength()).to.equal(1n);
+      const [poolToken0, poolToken1, poolFee, reserve0, reserve1, totalLiquidity] =
+        await dex.read.poolAt([0n]) as [string, string, number, bigint, bigint, bigint];
+      expect(getAddress(poolToken0)).to.equal(token0);
+      expect(getAddress(poolToken1)).to.equal(token1);
+      expect(poolFee).to.equal(FEE);
+      const [reserveA, reserveB, total] = await dex.read.getPoolInfo([
+        token0, token1, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      expect(reserve0).to.equal(reserveA);
+      expect(reserve1).to.equal(reserveB);
+      expect(totalLiquidity).to.equal(total);
+    });
+
+    it("should not register the pool again when more liquidity is added", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("20")]);
+      await tokenB.write.approve([dex.address, parseUnits("40", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      expect(await dex.read.allPoolsLength()).to.equal(1n);
+    });
+
+    it("should keep a pool registered and not duplicate it after its provider withdraws", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("20")]);
+      await tokenB.write.approve([dex.address, parseUnits("40", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      const lpBalance = await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, owner.account.address]);
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+      await lpToken.write.approve([dex.address, lpBalance]);
+      await dex.write.removeLiquidity([
+        tokenA.address, tokenB.address, FEE, lpBalance, 0, 0, owner.account.address, deadline
+      ]);
+
+      expect(await dex.read.allPoolsLength()).to.equal(1n);
+      const [, , , reserve0, reserve1, totalLiquidity] =
+        await dex.read.poolAt([0n]) as [string, string, number, bigint, bigint, bigint];
+      // Only the locked minimum is left
+      expect(reserve0).to.be.greaterThan(0n);
+      expect(reserve1).to.be.greaterThan(0n);
+      expect(totalLiquidity).to.equal(await dex.read.MINIMUM_LIQUIDITY());
+
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      expect(await dex.read.allPoolsLength()).to.equal(1n);
+      expect(await dex.getEvents.PoolCreated()).to.have.lengthOf(0);
+    });
+
+    it("should enumerate pools in creation order", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const tokenC = await hre.viem.deployContract("TestTokenA");
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("10")]);
+      await tokenB.write.approve([dex.address, parseUnits("40", 6)]);
+      await tokenC.write.approve([dex.address, parseEther("10")]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      await dex.write.addLiquidity([
+        tokenC.address, tokenB.address, FEE, parseEther("10"), parseUnits("20", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      expect(await dex.read.allPoolsLength()).to.equal(2n);
+      const [firstToken0, firstToken1] = await dex.read.poolAt([0n]) as [string, string, number, bigint, bigint, bigint];
+      const [secondToken0, secondToken1] = await dex.read.poolAt([1n]) as [string, string, number, bigint, bigint, bigint];
+      expect([firstToken0, firstToken1].map(getAddress)).to.include(getAddress(tokenA.address));
+      expect([secondToken0, secondToken1].map(getAddress)).to.include(getAddress(tokenC.address));
+    });
+
+    it("should revert with SS:IPI for an out-of-range index", async function () {
+      const { dex } = await loadFixture(deployContracts);
+
+      try {
+        await dex.read.poolAt([0n]);
+        expect.fail("Should have reverted with 'SS:IPI'");
+      } catch (error: any) {
+        // Hardhat can't always infer the reason for this call under viaIR, so
+        // decode the raw revert data instead of relying on the message
+        const revert = error.walk((e: any) => typeof e?.data === "string");
+        const decoded = decodeErrorResult({ abi: [], data: revert.data });
+        expect(decoded.args).to.deep.equal(["SS:IPI"]);
+      }
+    });
+  });
+
+  describe("LP Tokens", function () {
+    it("should return the zero address and no balance for a pool that doesn't exist", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      expect(await dex.read.getLpToken([tokenA.address, tokenB.address, FEE])).to.equal(
+        "0x0000000000000000000000000000000000000000"
+      );
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, owner.account.address])).to.equal(0n);
+    });
+
+    it("should deploy an LP token per pool and mint the provider's liquidity", async function () {
+      const { tokenA, tokenB, dex, owner, lpToken } = await loadFixture(deployWithPool);
+
+      const [token0, token1] = BigInt(tokenA.address) < BigInt(tokenB.address)
+        ? [getAddress(tokenA.address), getAddress(tokenB.address)]
+        : [getAddress(tokenB.address), getAddress(tokenA.address)];
+      expect(await lpToken.read.name()).to.equal("SimpleSwap LP");
+      expect(await lpToken.read.symbol()).to.equal("SS-LP");
+      // Mean of TestTokenA's 18 and TestTokenB's 6 decimals
+      expect(await lpToken.read.decimals()).to.equal(12);
+      expect(await lpToken.read.swap()).to.equal(getAddress(dex.address));
+      expect(await lpToken.read.token0()).to.equal(token0);
+      expect(await lpToken.read.token1()).to.equal(token1);
+
+      const [, , totalLiquidity, userLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      expect(await lpToken.read.balanceOf([owner.account.address])).to.equal(userLiquidity);
+      expect(await lpToken.read.totalSupply()).to.equal(totalLiquidity);
+    });
+
+    it("should let a holder of transferred LP tokens remove the liquidity", async function () {
+      const { tokenA, tokenB, dex, owner, user, lpToken, deadline } = await loadFixture(deployWithPool);
+      const amount = (await lpToken.read.balanceOf([owner.account.address])) / 2n;
+
+      await lpToken.write.transfer([user.account.address, amount]);
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, user.account.address])).to.equal(amount);
+
+      const balanceBefore = await tokenA.read.balanceOf([user.account.address]);
+      await lpToken.write.approve([dex.address, amount], { account: user.account });
+      await dex.write.removeLiquidity([
+        tokenA.address, tokenB.address, FEE, amount, 0, 0, user.account.address, deadline
+      ], { account: user.account });
+
+      expect(await lpToken.read.balanceOf([user.account.address])).to.equal(0n);
+      expect(await tokenA.read.balanceOf([user.account.address])).to.be.greaterThan(balanceBefore);
+      const [, , totalLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      expect(await lpToken.read.totalSupply()).to.equal(totalLiquidity);
+    });
+
+    it("should revert removing liquidity without an LP token allowance", async function () {
+      const { tokenA, tokenB, dex, owner, lpToken, deadline } = await loadFixture(deployWithPool);
+      const amount = await lpToken.read.balanceOf([owner.account.address]);
+
+      await expect(
+        dex.write.removeLiquidity([
+          tokenA.address, tokenB.address, FEE, amount, 0, 0, owner.account.address, deadline
+        ])
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+
+    it("should only let SimpleSwap mint and burn", async function () {
+      const { owner, lpToken } = await loadFixture(deployWithPool);
+
+      await expect(lpToken.write.mint([owner.account.address, 1n])).to.be.rejectedWith("SS:FORBIDDEN");
+      await expect(lpToken.write.burn([owner.account.address, 1n])).to.be.rejectedWith("SS:FORBIDDEN");
+    });
+  });
+
+  describe("Minimum Liquidity", function () {
+    const lockedLiquidityHolder = "0x000000000000000000000000000000000000dEaD";
+
+    it("should lock MINIMUM_LIQUIDITY when a pool is created", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+      const minimumLiquidity = await dex.read.MINIMUM_LIQUIDITY();
+      expect(minimumLiquidity).to.equal(1000n);
+
+      await tokenA.write.approve([dex.address, parseEther("100")]);
+      await tokenB.write.approve([dex.address, parseUnits("200", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("200", 6),
+        0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ]);
+
+      const [, , totalLiquidity, ownerLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+
+      expect(ownerLiquidity).to.equal(totalLiquidity - minimumLiquidity);
+      expect(await lpToken.read.balanceOf([lockedLiquidityHolder])).to.equal(minimumLiquidity);
+
+      const [event] = await dex.getEvents.LiquidityAdded();
+      expect(event.args.liquidity).to.equal(ownerLiquidity);
+    });
+
+    it("should revert with SS:ILM if the first deposit doesn't mint more than MINIMUM_LIQUIDITY", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      await tokenA.write.approve([dex.address, 1000n]);
+      await tokenB.write.approve([dex.address, 1000n]);
+
+      // sqrt(1000 * 1000) == MINIMUM_LIQUIDITY, which would leave nothing for the depositor
+      await expect(
+        dex.write.addLiquidity([
+          tokenA.address, tokenB.address, FEE, 1000n, 1000n,
+          0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ])
+      ).to.be.rejectedWith("SS:ILM");
+    });
+
+    it("should not let the first depositor inflate the LP price to take later deposits", async function () {
+      // The attacker creates the pool with dust and swaps back and forth through it,
+      // so the reserves grow while the LP supply doesn't. Without the lock the
+      // attacker's single LP unit would be the whole supply, a victim depositing
+      // 19 TTB would be minted 1 unit and could only withdraw 14.5 TTB. With 1000
+      // units locked the victim keeps their deposit and the attacker loses what
+      // they pushed into the pool.
+      const { tokenA, tokenB, dex, owner: victim, user: attacker } = await loadFixture(deployContracts);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("11")], { account: attacker.account });
+      await tokenB.write.approve([dex.address, parseUnits("11", 6)], { account: attacker.account });
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, 1001n, 1001n,
+        0, 0, attacker.account.address, deadline
+      ], { account: attacker.account });
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, attacker.account.address])).to.equal(1n);
+
+      await dex.write.swapExactTokensForTokens([
+        parseEther("10"), 0n, [tokenA.address, tokenB.address], [FEE], attacker.account.address, deadline
+      ], { account: attacker.account });
+      await dex.write.swapExactTokensForTokens([
+        parseUnits("10", 6), 0n, [tokenB.address, tokenA.address], [FEE], attacker.account.address, deadline
+      ], { account: attacker.account });
+
+      const depositB = parseUnits("19", 6);
+      await tokenA.write.approve([dex.address, parseEther("100")], { account: victim.account });
+      await tokenB.write.approve([dex.address, depositB], { account: victim.account });
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), depositB,
+        0, 0, victim.account.address, deadline
+      ], { account: victim.account });
+
+      const [, reserveB, totalLiquidity, victimLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, victim.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      const attackerLiquidity = await dex.read.getLiquidity([
+        tokenA.address, tokenB.address, FEE, attacker.account.address
+      ]);
+
+      // The victim can withdraw at least 99.9% of the TTB they put in
+      expect((victimLiquidity * reserveB) / totalLiquidity).to.be.gte((depositB * 999n) / 1000n);
+      // and the attacker's share is worth less than 1% of the 10 TTB they swapped in
+      expect((attackerLiquidity * reserveB) / totalLiquidity).to.be.lessThan(parseUnits("0.1", 6));
+    });
+
+    it("should ignore tokens sent to the contract directly", async function () {
+      // Reserves are tracked internally, so a plain transfer can't move the share price
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      await tokenA.write.approve([dex.address, parseEther("10")]);
+      await tokenB.write.approve([dex.address, parseUnits("10", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
+        0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 1000)
+      ]);
+      const poolBefore = await dex.read.getPoolInfo([tokenA.address, tokenB.address, FEE, owner.account.address]);
+
+      await tokenA.write.transfer([dex.address, parseEther("100")]);
+
+      expect(await dex.read.getPoolInfo([tokenA.address, tokenB.address, FEE, owner.account.address])).to.deep.equal(poolBefore);
+    });
+  });
+
+  describe("Fee Tiers", function () {
+    // Pools of 100 TTA / 100 TTB in both the 0.05% and the 1% tier
+    async function deployWithTwoTiers() {
+      const fixture = await deployContracts();
+      const { tokenA, tokenB, dex, owner, user } = fixture;
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await tokenA.write.approve([dex.address, parseEther("1000")]);
+      await tokenB.write.approve([dex.address, parseUnits("1000", 6)]);
+      for (const fee of [5, 100]) {
+        await dex.write.addLiquidity([
+          tokenA.address, tokenB.address, fee, parseEther("100"), parseUnits("100", 6),
+          0, 0, owner.account.address, deadline
+        ]);
+      }
+
+      await tokenA.write.approve([dex.address, parseEther("1000")], { account: user.account });
+
+      return { ...fixture, deadline };
+    }
+
+    it("should enable the 0.05%, 0.3% and 1% tiers on deployment", async function () {
+      const { dex } = await loadFixture(deployContracts);
+
+      expect(await dex.read.getFeeTiers()).to.deep.equal([5, 30, 100]);
+      expect(await dex.read.isFeeTierEnabled([30])).to.equal(true);
+      expect(await dex.read.isFeeTierEnabled([50])).to.equal(false);
+      expect(await dex.read.MAX_FEE()).to.equal(1000);
+    });
+
+    it("should keep a separate pool and LP token for each tier of a pair", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployWithTwoTiers);
+
+      expect(await dex.read.allPoolsLength()).to.equal(2n);
+      const [, , firstFee] = await dex.read.poolAt([0n]) as [string, string, number, bigint, bigint, bigint];
+      const [, , secondFee] = await dex.read.poolAt([1n]) as [string, string, number, bigint, bigint, bigint];
+      expect([firstFee, secondFee]).to.deep.equal([5, 100]);
+
+      const lowFeeLp = await getLpToken(dex, tokenA.address, tokenB.address, 5);
+      const highFeeLp = await getLpToken(dex, tokenA.address, tokenB.address, 100);
+      expect(lowFeeLp.address).to.not.equal(highFeeLp.address);
+      expect(await lowFeeLp.read.fee()).to.equal(5);
+      expect(await highFeeLp.read.fee()).to.equal(100);
+
+      // The 0.3% pool of the same pair doesn't exist yet
+      const [reserveA, reserveB, total] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      expect([reserveA, reserveB, total]).to.deep.equal([0n, 0n, 0n]);
+    });
+
+    it("should quote and charge each pool's own fee", async function () {
+      const { tokenA, tokenB, dex, user, deadline } = await loadFixture(deployWithTwoTiers);
+      const amountIn = parseEther("1");
+      const reserveIn = parseEther("100");
+      const reserveOut = parseUnits("100", 6);
+
+      const lowFeeOut = await dex.read.getAmountOut([amountIn, reserveIn, reserveOut, 5]);
+      const highFeeOut = await dex.read.getAmountOut([amountIn, reserveIn, reserveOut, 100]);
+      const amountInWithFee = amountIn * 9995n;
+      expect(lowFeeOut).to.equal(amountInWithFee * reserveOut / (reserveIn * 10000n + amountInWithFee));
+      expect(highFeeOut).to.be.lessThan(lowFeeOut);
+
+      const balanceBefore = await tokenB.read.balanceOf([user.account.address]);
+      await dex.write.swapExactTokensForTokens([
+        amountIn, 0n, [tokenA.address, tokenB.address], [100], user.account.address, deadline
+      ], { account: user.account });
+      expect(await tokenB.read.balanceOf([user.account.address]) - balanceBefore).to.equal(highFeeOut);
+
+      const [event] = await dex.getEvents.Swap();
+      expect(event.args.fee).to.equal(100);
+
+      // Only the 1% pool moved
+      const [lowReserveA] = await dex.read.getReserves([tokenA.address, tokenB.address, 5]) as [bigint, bigint];
+      const [highReserveA] = await dex.read.getReserves([tokenA.address, tokenB.address, 100]) as [bigint, bigint];
+      expect(lowReserveA).to.equal(reserveIn);
+      expect(highReserveA).to.equal(reserveIn + amountIn);
+    });
+
+    it("should revert with SS:IFT when creating a pool in a disabled tier", async function () {
+      const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
+
+      await tokenA.write.approve([dex.address, parseEther("10")]);
+      await tokenB.write.approve([dex.address, parseUnits("10", 6)]);
+      await expect(
+        dex.write.addLiquidity([
+          tokenA.address, tokenB.address, 50, parseEther("10"), parseUnits("10", 6),
+          0, 0, owner.account.address, BigInt(Math.floor(Date.now() / 1000) + 1000)
+        ])
+      ).to.be.rejectedWith("SS:IFT");
+    });
+
+    it("should let only the owner enable a new tier", async function () {
+      const { dex, user } = await loadFixture(deployContracts);
+
+      await expect(
+        dex.write.enableFeeTier([50], { account: user.account })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+
+      await dex.write.enableFeeTier([50]);
+      const [event] = await dex.getEvents.FeeTierEnabled();
+      expect(event.args.fee).to.equal(50);
+      expect(await dex.read.isFeeTierEnabled([50])).to.equal(true);
+      expect(await dex.read.getFeeTiers()).to.deep.equal([5, 30, 100, 50]);
+    });
+
+    it("should revert with SS:IFT for a zero, too high or already enabled tier", async function () {
+      const { dex } = await loadFixture(deployContracts);
+
+      await expect(dex.write.enableFeeTier([0])).to.be.rejectedWith("SS:IFT");
+      await expect(dex.write.enableFeeTier([1001])).to.be.rejectedWith("SS:IFT");
+      await expect(dex.write.enableFeeTier([30])).to.be.rejectedWith("SS:IFT");
+    });
+
+    it("should revert with SS:IFT when quoting with a fee of 100% or more", async function () {
+      const { dex } = await loadFixture(deployContracts);
+      const reserveIn = parseEther("100");
+      const reserveOut = parseUnits("100", 6);
+
+      for (const fee of [10000, 10001]) {
+        await expect(dex.read.getAmountOut([parseEther("1"), reserveIn, reserveOut, fee])).to.be.rejectedWith("SS:IFT");
+        await expect(dex.read.getAmountIn([parseUnits("1", 6), reserveIn, reserveOut, fee])).to.be.rejectedWith("SS:IFT");
+      }
+    });
+
+    it("should revert with SS:IFL when fees don't match the path", async function () {
+      const { tokenA, tokenB, dex, user, deadline } = await loadFixture(deployWithTwoTiers);
+      const path = [tokenA.address, tokenB.address];
+
+      await expect(dex.read.getAmountsOut([parseEther("1"), path, []])).to.be.rejectedWith("SS:IFL");
+      await expect(
+        dex.write.swapExactTokensForTokens([
+          parseEther("1"), 0n, path, [5, 100], user.account.address, deadline
+        ], { account: user.account })
+      ).to.be.rejectedWith("SS:IFL");
+    });
+  });
+
+  describe("Protocol Fee", function () {
+    const protocolFeeBps = 1667; // 1/6 of the swap fee, as in Uniswap V2
+
+    // Pool of 100 TTA / 100 TTB created by the owner with the protocol fee on
+    async function deployWithProtocolFee() {
+      const fixture = await deployContracts();
+      const { tokenA, tokenB, dex, owner, user } = fixture;
+      const [, , feeRecipient] = await hre.viem.getWalletClients();
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 1000);
+
+      await dex.write.setFeeTo([feeRecipient.account.address]);
+      await dex.write.setProtocolFee([protocolFeeBps]);
+
+      await tokenA.write.approve([dex.address, parseEther("1000")]);
+      await tokenB.write.approve([dex.address, parseUnits("1000", 6)]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("100"), parseUnits("100", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      await tokenA.write.approve([dex.address, parseEther("1000")], { account: user.account });
+      await tokenB.write.approve([dex.address, parseUnits("1000", 6)], { account: user.account });
+
+      return { ...fixture, feeRecipient, deadline };
+    }
+
+    async function swapBackAndForth(fixture: Awaited<ReturnType<typeof deployWithProtocolFee>>) {
+      const { tokenA, tokenB, dex, user, deadline } = fixture;
+      await dex.write.swapExactTokensForTokens([
+        parseEther("50"), 0n, [tokenA.address, tokenB.address], [FEE], user.account.address, deadline
+      ], { account: user.account });
+      await dex.write.swapExactTokensForTokens([
+        parseUnits("30", 6), 0n, [tokenB.address, tokenA.address], [FEE], user.account.address, deadline
+      ], { account: user.account });
+    }
+
+    it("should make the deployer the owner with the protocol fee off", async function () {
+      const { dex, owner } = await loadFixture(deployContracts);
+
+      expect(await dex.read.owner()).to.equal(getAddress(owner.account.address));
+      expect(await dex.read.feeTo()).to.equal("0x0000000000000000000000000000000000000000");
+      expect(await dex.read.protocolFeeBps()).to.equal(0);
+      expect(await dex.read.MAX_PROTOCOL_FEE_BPS()).to.equal(5000n);
+    });
+
+    it("should only let the owner change the fee settings", async function () {
+      const { dex, user } = await loadFixture(deployContracts);
+
+      await expect(
+        dex.write.setFeeTo([user.account.address], { account: user.account })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+      await expect(
+        dex.write.setProtocolFee([1000], { account: user.account })
+      ).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+
+    it("should update the fee settings and emit events", async function () {
+      const { dex, user } = await loadFixture(deployContracts);
+
+      await dex.write.setFeeTo([user.account.address]);
+      expect(await dex.read.feeTo()).to.equal(getAddress(user.account.address));
+      const [feeToEvent] = await dex.getEvents.FeeToUpdated();
+      expect(feeToEvent.args.feeTo).to.equal(getAddress(user.account.address));
+
+      await dex.write.setProtocolFee([2500]);
+      expect(await dex.read.protocolFeeBps()).to.equal(2500);
+      const [protocolFeeEvent] = await dex.getEvents.ProtocolFeeUpdated();
+      expect(protocolFeeEvent.args.protocolFeeBps).to.equal(2500n);
+    });
+
+    it("should revert with SS:IPF above MAX_PROTOCOL_FEE_BPS", async function () {
+      const { dex } = await loadFixture(deployContracts);
+
+      await dex.write.setProtocolFee([5000]);
+      await expect(dex.write.setProtocolFee([5001])).to.be.rejectedWith("SS:IPF");
+    });
+
+    it("should transfer ownership in two steps", async function () {
+      const { dex, owner, user } = await loadFixture(deployContracts);
+
+      await dex.write.transferOwnership([user.account.address]);
+      expect(await dex.read.owner()).to.equal(getAddress(owner.account.address));
+      expect(await dex.read.pendingOwner()).to.equal(getAddress(user.account.address));
+
+      await dex.write.acceptOwnership({ account: user.account });
+      expect(await dex.read.owner()).to.equal(getAddress(user.account.address));
+      await expect(dex.write.setProtocolFee([1000])).to.be.rejectedWith("OwnableUnauthorizedAccount");
+    });
+
+    it("should not mint protocol fees while the fee is off", async function () {
+      const fixture = await loadFixture(deployWithProtocolFee);
+      const { tokenA, tokenB, dex, owner, feeRecipient, deadline } = fixture;
+      await dex.write.setProtocolFee([0]);
+
+      await swapBackAndForth(fixture);
+      expect(await dex.read.pendingProtocolFee([tokenA.address, tokenB.address, FEE])).to.equal(0n);
+
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, feeRecipient.account.address])).to.equal(0n);
+    });
+
+    it("should mint the pending protocol fee to feeTo on the next liquidity change", async function () {
+      const fixture = await loadFixture(deployWithProtocolFee);
+      const { tokenA, tokenB, dex, owner, feeRecipient, deadline } = fixture;
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+
+      // Swaps only grow k, nothing is minted until liquidity changes
+      await swapBackAndForth(fixture);
+      const pending = await dex.read.pendingProtocolFee([tokenA.address, tokenB.address, FEE]);
+      expect(pending > 0n).to.be.true;
+      expect(await lpToken.read.balanceOf([feeRecipient.account.address])).to.equal(0n);
+
+      const [reserveA, reserveB, totalBefore] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+
+      expect(await lpToken.read.balanceOf([feeRecipient.account.address])).to.equal(pending);
+      expect(await dex.read.pendingProtocolFee([tokenA.address, tokenB.address, FEE])).to.equal(0n);
+
+      // The minted share is worth about 1/6 of the growth in sqrt(k) since the pool was created
+      const rootK = BigInt(Math.floor(Math.sqrt(Number(reserveA * reserveB))));
+      const rootKLast = BigInt(Math.floor(Math.sqrt(Number(parseEther("100") * parseUnits("100", 6)))));
+      const feeValue = (pending * rootK) / (totalBefore + pending);
+      const expectedValue = ((rootK - rootKLast) * BigInt(protocolFeeBps)) / 10_000n;
+      expect(Number(feeValue)).to.be.closeTo(Number(expectedValue), Number(expectedValue) / 1000);
+    });
+
+    it("should mint the pending protocol fee when liquidity is removed", async function () {
+      const fixture = await loadFixture(deployWithProtocolFee);
+      const { tokenA, tokenB, dex, owner, feeRecipient, deadline } = fixture;
+      const lpToken = await getLpToken(dex, tokenA.address, tokenB.address);
+
+      await swapBackAndForth(fixture);
+      const pending = await dex.read.pendingProtocolFee([tokenA.address, tokenB.address, FEE]);
+      const ownerLiquidity = await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, owner.account.address]);
+
+      await lpToken.write.approve([dex.address, ownerLiquidity]);
+      await dex.write.removeLiquidity([
+        tokenA.address, tokenB.address, FEE, ownerLiquidity, 0n, 0n, owner.account.address, deadline
+      ]);
+
+      expect(await lpToken.read.balanceOf([feeRecipient.account.address])).to.equal(pending);
+      const [, , totalLiquidity] = await dex.read.getPoolInfo([
+        tokenA.address, tokenB.address, FEE, owner.account.address
+      ]) as [bigint, bigint, bigint, bigint];
+      expect(totalLiquidity).to.equal(await lpToken.read.totalSupply());
+      expect(totalLiquidity).to.equal(pending + (await dex.read.MINIMUM_LIQUIDITY()));
+    });
+
+    it("should stop accruing once the fee is turned off", async function () {
+      const fixture = await loadFixture(deployWithProtocolFee);
+      const { tokenA, tokenB, dex, owner, feeRecipient, deadline } = fixture;
+
+      // Turning the fee off forfeits what accrued so far to the LPs at the next liquidity change
+      await swapBackAndForth(fixture);
+      await dex.write.setFeeTo(["0x0000000000000000000000000000000000000000"]);
+      await dex.write.addLiquidity([
+        tokenA.address, tokenB.address, FEE, parseEther("10"), parseUnits("10", 6),
+        0, 0, owner.account.address, deadline
+      ]);
+      await dex.write.setFeeTo([feeRecipient.account.address]);
+
+      // kLast was cleared, so nothing accrues again until the next liquidity change
+      await swapBackAndForth(fixture);
+      expect(await dex.read.pendingProtocolFee([tokenA.address, tokenB.address, FEE])).to.equal(0n);
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, feeRecipient.account.address])).to.equal(0n);
+    });
+  });
+
+  describe("Edge Cases and Error Handling", function () {
+    it("should handle different decimal tokens correctly", async function () {
+      const { tokenA, tokenB } = await loadFixture(deployContracts);
+      
+      // Check token decimals
+      const decimalsA = await tokenA.read.decimals();
+      const decimalsB = await tokenB.read.decimals();
+      
+      console.log("Token A decimals:", decimalsA);
+      console.log("Token B decimals:", decimalsB);
+      
       expect(decimalsA).to.equal(18);
       expect(decimalsB).to.equal(6);
     });
@@ -1399,7 +2655,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity(
           [
             tokenA.address, // tokenA
-            tokenA.address, // tokenB (same as tokenA)
+            tokenA.address, FEE, // tokenB (same as tokenA)
             amount,        // amountADesired
             amount,        // amountBDesired
             0,             // amountAMin
@@ -1428,7 +2684,7 @@ describe("SimpleSwap", function () {
         await dex.write.addLiquidity(
           [
             tokenA.address, // tokenA
-            zeroAddress,   // tokenB (zero address)
+            zeroAddress, FEE,   // tokenB (zero address)
             amount,        // amountADesired
             amount,        // amountBDesired
             0,             // amountAMin
@@ -1447,9 +2703,9 @@ describe("SimpleSwap", function () {
     it("should handle small and large liquidity amounts correctly", async function () {
       const { tokenA, tokenB, dex, owner } = await loadFixture(deployContracts);
       
-      // Test with very small amounts
-      const smallAmountA = 1n; // 1 wei
-      const smallAmountB = 1n; // 1 base unit (6 decimals)
+      // Test with the smallest amounts that mint more than MINIMUM_LIQUIDITY
+      const smallAmountA = 1001n; // 1001 wei
+      const smallAmountB = 1001n; // 1001 base units (6 decimals)
       
       // Approve and add small liquidity
       await tokenA.write.approve([dex.address, smallAmountA], { account: owner.account });
@@ -1459,6 +2715,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           smallAmountA,
           smallAmountB,
           0,
@@ -1481,6 +2738,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           largeAmountA,
           largeAmountB,
           0,
@@ -1492,7 +2750,7 @@ describe("SimpleSwap", function () {
       );
       
       // Verify the pool has the expected reserves
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]);
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
       expect(reserves[0] + reserves[1]).to.be.gt(0);
     });
 
@@ -1515,6 +2773,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           maxUint112,
           maxUint112,
           0,
@@ -1526,7 +2785,7 @@ describe("SimpleSwap", function () {
       );
       
       // Verify reserves are set to maxUint112
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]);
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
       expect(reserves[0]).to.equal(maxUint112);
       expect(reserves[1]).to.equal(maxUint112);
 
@@ -1542,6 +2801,7 @@ describe("SimpleSwap", function () {
           [
             tokenA.address,
             tokenB.address,
+            FEE,
             1n,
             1n,
             0,
@@ -1576,6 +2836,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           amountA1,
           amountB1,
           0,
@@ -1589,7 +2850,7 @@ describe("SimpleSwap", function () {
       // Get the price of tokenA in terms of tokenB (scaled by 1e18)
       // We added 1e18 tokenA units and 1e12 tokenB units
       // The price should be (1e12 * 1e18) / 1e18 = 1e12
-      const price1 = await dex.read.getPrice([tokenA.address, tokenB.address]);
+      const price1 = await dex.read.getPrice([tokenA.address, tokenB.address, FEE]);
       expect(price1).to.equal(10n ** 12n);
       
       // Test case 2: Deploy a new contract for the second test to avoid interference
@@ -1610,6 +2871,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           mediumAmountA,
           mediumAmountB,
           0,
@@ -1621,7 +2883,7 @@ describe("SimpleSwap", function () {
       );
       
       // Price should be (1000 * 1e6 * 1e18) / (1000 * 1e18) = 1e6
-      const price2 = await dex2.read.getPrice([tokenA.address, tokenB.address]);
+      const price2 = await dex2.read.getPrice([tokenA.address, tokenB.address, FEE]);
       expect(price2).to.equal(10n ** 6n);
       
       // Test case 3: Deploy a new contract for the third test
@@ -1642,6 +2904,7 @@ describe("SimpleSwap", function () {
         [
           tokenA.address,
           tokenB.address,
+          FEE,
           diffAmountA,
           diffAmountB,
           0,
@@ -1654,7 +2917,7 @@ describe("SimpleSwap", function () {
       
       // Price should reflect the new ratio
       // (1 * 1e6 * 1e18) / (1000 * 1e18) = 1e3
-      const price3 = await dex3.read.getPrice([tokenA.address, tokenB.address]);
+      const price3 = await dex3.read.getPrice([tokenA.address, tokenB.address, FEE]);
       expect(price3).to.equal(10n ** 3n);
     });
 
@@ -1668,6 +2931,7 @@ describe("SimpleSwap", function () {
       await dex.write.addLiquidity([
         tokenA.address, 
         tokenB.address, 
+        FEE, 
         parseEther("10"), 
         parseUnits("20", 6),
         0, 
@@ -1685,6 +2949,7 @@ describe("SimpleSwap", function () {
           parseEther("1"),
           0,
           [tokenA.address, tokenB.address],
+          [FEE],
           user.account.address,
           1n // already expired
         ], { account: user.account });
@@ -1715,6 +2980,7 @@ describe("SimpleSwap", function () {
           [
               tokenA.address,
               tokenB.address,
+              FEE,
               maxUint112,
               maxUint112,
               0,
@@ -1726,7 +2992,7 @@ describe("SimpleSwap", function () {
       );
 
       // Should not revert, verifies branch where require(reserveA <= max && reserveB <= max) passes exactly at bounds.
-      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address]);
+      const reserves = await dex.read.getReserves([tokenA.address, tokenB.address, FEE]);
       expect(reserves[0]).to.equal(maxUint112);
       expect(reserves[1]).to.equal(maxUint112);
     });
@@ -1761,7 +3027,7 @@ describe("SimpleSwap", function () {
         // Covers require(amountIn > 0) in getAmountOut.
         const { testHelper } = await deployTestHelper();
         await expect(
-            testHelper.write.testGetAmountOut([0, 10, 10])
+            testHelper.write.testGetAmountOut([0, 10, 10, FEE])
         ).to.be.rejectedWith("SS:INA");
     });
 
@@ -1769,13 +3035,38 @@ describe("SimpleSwap", function () {
         // Covers require for reserves in getAmountOut.
         const { testHelper } = await deployTestHelper();
         await expect(
-            testHelper.write.testGetAmountOut([1, 0, 10])
+            testHelper.write.testGetAmountOut([1, 0, 10, FEE])
+        ).to.be.rejectedWith("SS:IL");
+        await expect(
+            testHelper.write.testGetAmountOut([1, 10, 0, FEE])
+        ).to.be.rejectedWith("SS:IL");
+    });
+
+    it("should revert in getAmountIn with SS:INA if output is zero", async function () {
+        // Covers require(amountOut > 0) in getAmountIn.
+        const { testHelper } = await deployTestHelper();
+        await expect(
+            testHelper.write.testGetAmountIn([0, 10, 10, FEE])
+        ).to.be.rejectedWith("SS:INA");
+    });
+
+    it("should revert in getAmountIn with SS:IL if reserves can't cover the output", async function () {
+        // Covers require for reserves in getAmountIn.
+        const { testHelper } = await deployTestHelper();
+        await expect(
+            testHelper.write.testGetAmountIn([1, 0, 10, FEE])
         ).to.be.rejectedWith("SS:IL");
         await expect(
-            testHelper.write.testGetAmountOut([1, 10, 0])
+            testHelper.write.testGetAmountIn([10, 10, 10, FEE])
         ).to.be.rejectedWith("SS:IL");
     });
 
+    it("should round getAmountIn up in favour of the pool", async function () {
+        // (10 * 1 * 1000) / ((10 - 1) * 997) = 1.11..., rounded down to 1, plus 1.
+        const { testHelper } = await deployTestHelper();
+        expect(await testHelper.read.testGetAmountIn([1, 10, 10, FEE])).to.equal(2n);
+    });
+
     it("should revert in sortTokens if addresses are the same", async function () {
         // Covers the require(tokenA != tokenB) branch.
         const { testHelper, owner } = await deployTestHelper();
@@ -1810,4 +3101,184 @@ describe("SimpleSwap", function () {
       expect(await testHelper.read.testSqrt([10000])).to.equal(100n);
     });
   });
+
+  describe("Permit", function () {
+    // Signs an EIP-2612 permit from `signer` for `owner`'s tokens; they differ
+    // only in the wrong-signer test
+    async function signPermit(
+      token: Awaited<ReturnType<typeof deployContracts>>["tokenA" | "tokenB"],
+      signer: Awaited<ReturnType<typeof hre.viem.getWalletClients>>[number],
+      owner: `0x${string}`,
+      spender: `0x${string}`,
+      value: bigint,
+      deadline: bigint
+    ) {
+      const publicClient = await hre.viem.getPublicClient();
+      const signature = await signer.signTypedData({
+        domain: {
+          name: await token.read.name(),
+          version: "1",
+          chainId: await publicClient.getChainId(),
+          verifyingContract: token.address,
+        },
+        types: {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "Permit",
+        message: { owner, spender, value, nonce: await token.read.nonces([owner]), deadline },
+      });
+      const { v, r, s } = hexToSignature(signature);
+      return { value, deadline, v: Number(v), r, s };
+    }
+
+    const noPermit = { value: 0n, deadline: 0n, v: 0, r: `0x${"00".repeat(32)}` as `0x${string}`, s: `0x${"00".repeat(32)}` as `0x${string}` };
+
+    it("should swap with a permit and no prior approval", async function () {
+      const { tokenA, tokenB, dex, user, deadline } = await loadFixture(deployWithPool);
+      const amountIn = parseEther("1");
+
+      expect(await tokenA.read.allowance([user.account.address, dex.address])).to.equal(0n);
+      const permit = await signPermit(tokenA, user, user.account.address, dex.address, amountIn, deadline);
+      const balanceBefore = await tokenB.read.balanceOf([user.account.address]);
+
+      await dex.write.swapExactTokensForTokensWithPermit(
+        [amountIn, 0n, [tokenA.address, tokenB.address], [FEE], user.account.address, deadline, permit],
+        { account: user.account }
+      );
+
+      expect(await tokenB.read.balanceOf([user.account.address])).to.be.greaterThan(balanceBefore);
+      expect(await tokenA.read.nonces([user.account.address])).to.equal(1n);
+      expect(await tokenA.read.allowance([user.account.address, dex.address])).to.equal(0n);
+    });
+
+    it("should add liquidity with a permit for each token", async function () {
+      const { tokenA, tokenB, dex, user, deadline } = await loadFixture(deployWithPool);
+      const amountA = parseEther("10");
+      const amountB = parseUnits("10", 6);
+
+      const permitA = await signPermit(tokenA, user, user.account.address, dex.address, amountA, deadline);
+      const permitB = await signPermit(tokenB, user, user.account.address, dex.address, amountB, deadline);
+
+      await dex.write.addLiquidityWithPermit(
+        [tokenA.address, tokenB.address, FEE, amountA, amountB, 0n, 0n, user.account.address, deadline, permitA, permitB],
+        { account: user.account }
+      );
+
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, user.account.address])).to.be.greaterThan(0n);
+    });
+
+    it("should skip a permit with a zero deadline for an already approved token", async function () {
+      const { tokenA, tokenB, dex, user, deadline } = await loadFixture(deployWithPool);
+      const amountA = parseEther("10");
+      const amountB = parseUnits("10", 6);
+
+      await tokenB.write.approve([dex.address, amountB], { account: user.account });
+      const permitA = await signPermit(tokenA, user, user.account.address, dex.address, amountA, deadline);
+
+      await dex.write.addLiquidityWithPermit(
+        [tokenA.address, tokenB.address, FEE, amountA, amountB, 0n, 0n, user.account.address, deadline, permitA, noPermit],
+        { account: user.account }
+      );
+
+      expect(await tokenB.read.nonces([user.account.address])).to.equal(0n);
+      expect(await dex.read.getLiquidity([tokenA.address, tokenB.address, FEE, user.account.address])).to.be.greaterThan(0n);
+    });
+
+    it("should revert with an expired permit and no allowance", async function () {
+      const { tokenA, tokenB, dex, user, deadline, now } = await loadFixture(deployWithPool);
+      const amountIn = parseEther("1");
+      const permit = await signPermit(tokenA, user, user.account.address, dex.address, amountIn, now - 1n);
+
+      await expect(
+        dex.write.swapExactTokensForTokensWithPermit(
+          [amountIn, 0n, [tokenA.address, tokenB.address], [FEE], user.account.address, deadline, permit],
+          { account: user.account }
+        )
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+
+    it("should still swap when the permit was front-run", async function () {
+      const { tokenA, tokenB, dex, owner, user, deadline } = await loadFixture(deployWithPool);
+      const amountIn = parseEther("1");
+      const permit = await signPermit(tokenA, user, user.account.address, dex.address, amountIn, deadline);
+      const args = [amountIn, 0n, [tokenA.address, tokenB.address], [FEE], user.account.address, deadline, permit] as const;
+
+      // Someone copies the signature from the mempool and submits it first
+      await tokenA.write.permit(
+        [user.account.address, dex.address, amountIn, deadline, permit.v, permit.r, permit.s],
+        { account: owner.account }
+      );
+      const balanceBefore = await tokenB.read.balanceOf([user.account.address]);
+
+      await dex.write.swapExactTokensForTokensWithPermit(args, { account: user.account });
+
+      expect(await tokenB.read.balanceOf([user.account.address])).to.be.greaterThan(balanceBefore);
+      expect(await tokenA.read.allowance([user.account.address, dex.address])).to.equal(0n);
+
+      // The allowance is spent, so replaying the used signature has nothing to draw on
+      await expect(
+        dex.write.swapExactTokensForTokensWithPermit(args, { account: user.account })
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+
+    it("should revert when the permit is not signed by the caller", async function () {
+      const { tokenA, tokenB, dex, owner, user, deadline } = await loadFixture(deployWithPool);
+      const amountIn = parseEther("1");
+      // owner signs a permit claiming to be for user's tokens
+      const permit = await signPermit(tokenA, owner, user.account.address, dex.address, amountIn, deadline);
+
+      await expect(
+        dex.write.swapExactTokensForTokensWithPermit(
+          [amountIn, 0n, [tokenA.address, tokenB.address], [FEE], user.account.address, deadline, permit],
+          { account: user.account }
+        )
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+
+    it("should revert when a permit signed for someone else's tokens is used by them", async function () {
+      const { tokenA, tokenB, dex, owner, user, deadline } = await loadFixture(deployWithPool);
+      const amountIn = parseEther("1");
+      // user's valid permit can only be applied to user's own tokens, so
+      // owner submitting it is left without an allowance of its own
+      const permit = await signPermit(tokenA, user, user.account.address, dex.address, amountIn, deadline);
+
+      await expect(
+        dex.write.swapExactTokensForTokensWithPermit(
+          [amountIn, 0n, [tokenA.address, tokenB.address], [FEE], owner.account.address, deadline, permit],
+          { account: owner.account }
+        )
+      ).to.be.rejectedWith("ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Error Codes", function () {
+    // The frontend maps every SS:* revert reason to a message in
+    // frontend/lib/errors.ts; a code added to the contract must be added there too.
+    const root = path.join(__dirname, "..", "..");
+
+    function collectCodes(file: string, pattern: RegExp): Set<string> {
+      const source = readFileSync(path.join(root, file), "utf8");
+      return new Set(Array.from(source.matchAll(pattern), (match) => match[1]));
+    }
+
+    it("should have a frontend message for every revert code", async function () {
+      const contractsDir = path.join("contracts", "contracts");
+      const contractCodes = new Set(
+        readdirSync(path.join(root, contractsDir))
+          .filter((file) => file.endsWith(".sol"))
+          .flatMap((file) => [...collectCodes(path.join(contractsDir, file), /["'](SS:[A-Z]+)["']/g)])
+      );
+      const decoderCodes = collectCodes("frontend/lib/errors.ts", /"(SS:[A-Z]+)":/g);
+
+      expect(contractCodes.size).to.be.greaterThan(0);
+      const missing = [...contractCodes].filter((code) => !decoderCodes.has(code));
+      expect(missing, `codes missing from frontend/lib/errors.ts`).to.be.empty;
+    });
+  });
 });
\ No newline at end of file
@@ -18,12 +18,12 @@ export const metadata: Metadata = {
     default: "SimpleSwap DEX",
     template: "%s | SimpleSwap DEX"
   },
-  description: "Decentralized Exchange on Ethereum Sepolia",
+  description: "Decentralized Exchange",
   generator: 'Next.js',
   metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'),
   openGraph: {
     title: "SimpleSwap DEX",
-    description: "Decentralized Exchange on Ethereum Sepolia",
+    description: "Decentralized Exchange",
     url: "/",
     siteName: "SimpleSwap DEX",
     locale: "en_US",
@@ -1,13 +1,19 @@
 "use client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { motion } from "framer-motion"
-import { ArrowLeftRight, Droplets, TrendingUp, Coins } from "lucide-react"
-import { useState } from "react"
+import { ArrowLeftRight, Droplets, Layers, Database, TrendingUp, Coins, Shield } from "lucide-react"
+import { useEffect, useState } from "react"
 import { Providers } from "@/components/providers"
+import { AdminPanel } from "@/components/admin-panel"
 import { SwapInterface } from "@/components/swap-interface"
 import { LiquidityInterface } from "@/components/liquidity-interface"
+import { LiquidityPositions } from "@/components/liquidity-positions"
+import { PoolsExplorer } from "@/components/pools-explorer"
 import { PriceDisplay } from "@/components/price-display"
 import { TokenFaucet } from "@/components/token-faucet"
+import { useProtocolFeeSettings } from "@/hooks/use-protocol-fee"
+import { HAS_DEPLOYMENTS } from "@/lib/chains"
+import type { TokenPair } from "@/lib/positions"
 
 const navItems = [
   {
@@ -24,6 +30,20 @@ const navItems = [
     iconColor: "text-blue-500",
     value: "liquidity",
   },
+  {
+    label: "Positions",
+    icon: <Layers className="w-5 h-5" />,
+    gradient: "radial-gradient(circle, rgba(139,92,246,0.15) 0%, rgba(124,58,237,0.06) 50%, rgba(109,40,217,0) 100%)",
+    iconColor: "text-violet-500",
+    value: "positions",
+  },
+  {
+    label: "Pools",
+    icon: <Database className="w-5 h-5" />,
+    gradient: "radial-gradient(circle, rgba(6,182,212,0.15) 0%, rgba(8,145,178,0.06) 50%, rgba(14,116,144,0) 100%)",
+    iconColor: "text-cyan-500",
+    value: "pools",
+  },
   {
     label: "Prices",
     icon: <TrendingUp className="w-5 h-5" />,
@@ -40,7 +60,25 @@ const navItems = [
   },
 ]
 
+// Only shown to the SimpleSwap owner, and to the pending owner so they can accept
+const adminNavItem = {
+  label: "Admin",
+  icon: <Shield className="w-5 h-5" />,
+  gradient: "radial-gradient(circle, rgba(148,163,184,0.15) 0%, rgba(100,116,139,0.06) 50%, rgba(71,85,105,0) 100%)",
+  iconColor: "text-slate-500",
+  value: "admin",
+}
+
 function AnimatedNavBar({ active, setActive }: { active: string, setActive: (v: string) => void }) {
+  const { isOwner, isPendingOwner } = useProtocolFeeSettings()
+  const showAdmin = isOwner || isPendingOwner
+  const items = showAdmin ? [...navItems, adminNavItem] : navItems
+
+  // Leave the admin page when the wallet switches to an account that isn't the owner
+  useEffect(() => {
+    if (active === "admin" && !showAdmin) setActive("swap")
+  }, [active, showAdmin, setActive])
+
   return (
     <motion.nav
       className="p-2 rounded-2xl bg-card border border-border/40 shadow-lg relative overflow-hidden mb-8"
@@ -48,7 +86,7 @@ function AnimatedNavBar({ active, setActive }: { active: string, setActive: (v:
       whileHover="hover"
     >
       <ul className="flex items-center gap-2 justify-evenly w-full relative z-10">
-        {navItems.map((item) => (
+        {items.map((item) => (
           <motion.li key={item.value} className="relative">
             <motion.button
               type="button"
@@ -76,6 +114,34 @@ function AnimatedNavBar({ active, setActive }: { active: string, setActive: (v:
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState("swap")
+  const [liquidityPair, setLiquidityPair] = useState<TokenPair | undefined>()
+
+  if (!HAS_DEPLOYMENTS) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          <Card className="max-w-2xl mx-auto bg-card border border-border shadow-xl">
+            <CardHeader className="border-b border-border">
+              <CardTitle className="text-foreground">No deployment configured</CardTitle>
+              <CardDescription className="text-muted-foreground">
+                SimpleSwap hasn&apos;t been deployed to any network this app knows about yet
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6 space-y-2 text-sm text-muted-foreground">
+              <p>
+                Run <code className="font-mono text-foreground">npm run deploy:localhost</code> or{" "}
+                <code className="font-mono text-foreground">npm run deploy:sepolia</code> in the{" "}
+                <code className="font-mono text-foreground">contracts</code> folder. The deploy writes the contract
+                addresses to <code className="font-mono text-foreground">frontend/lib/deployments.json</code>; reload
+                the app afterwards.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <Providers>
       <div className="min-h-screen bg-background">
@@ -107,7 +173,46 @@ export default function Home() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="p-6">
-                  <LiquidityInterface />
+                  <LiquidityInterface
+                    key={liquidityPair ? `${liquidityPair.tokenA.address}-${liquidityPair.tokenB.address}-${liquidityPair.fee}` : "new"}
+                    initialPair={liquidityPair}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            {activeTab === "positions" && (
+              <Card className="bg-card border border-border shadow-xl">
+                <CardHeader className="border-b border-border">
+                  <CardTitle className="text-foreground">My Positions</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Your liquidity in every pool and the tokens it redeems for
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <LiquidityPositions
+                    onManage={(pair) => {
+                      setLiquidityPair(pair)
+                      setActiveTab("liquidity")
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            {activeTab === "pools" && (
+              <Card className="bg-card border border-border shadow-xl">
+                <CardHeader className="border-b border-border">
+                  <CardTitle className="text-foreground">All Pools</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Every pool created on SimpleSwap and its current reserves
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <PoolsExplorer
+                    onAddLiquidity={(pair) => {
+                      setLiquidityPair(pair)
+                      setActiveTab("liquidity")
+                    }}
+                  />
                 </CardContent>
               </Card>
             )}
@@ -137,6 +242,19 @@ export default function Home() {
                 </CardContent>
               </Card>
             )}
+            {activeTab === "admin" && (
+              <Card className="bg-card border border-border shadow-xl">
+                <CardHeader className="border-b border-border">
+                  <CardTitle className="text-foreground">Admin</CardTitle>
+                  <CardDescription className="text-muted-foreground">
+                    Manage the protocol fee and view the fees it has accrued
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <AdminPanel />
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,109 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useAccount } from 'wagmi'
+import { CheckCircle, ExternalLink, HelpCircle, History, Loader2, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet'
+import { useTransactions } from '@/hooks/use-transactions'
+import { getChainConfig, getExplorerUrl, isSupportedChain } from '@/lib/chains'
+import { describeTransaction, getTransactionLabel, type TrackedTransaction } from '@/lib/transactions'
+import { isSameAddress } from '@/lib/token-registry'
+
+function StatusIcon({ status }: { status: TrackedTransaction['status'] }) {
+  if (status === 'pending') return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+  if (status === 'confirmed') return <CheckCircle className="w-4 h-4 text-green-500" />
+  if (status === 'unknown') return <HelpCircle className="w-4 h-4 text-muted-foreground" />
+  return <XCircle className="w-4 h-4 text-red-500" />
+}
+
+/**
+ * Header button that opens the list of recent transactions sent from this
+ * browser, with their status and a block explorer link.
+ */
+export function ActivityDrawer() {
+  const { address } = useAccount()
+  const { transactions, pendingCount, clearTransactions } = useTransactions()
+
+  // Only the connected account's activity once a wallet is connected
+  const visible = useMemo(
+    () => (address ? transactions.filter((tx) => isSameAddress(tx.account, address)) : transactions),
+    [transactions, address]
+  )
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-9 w-9 bg-card border border-border hover:bg-accent hover:text-accent-foreground transition-colors"
+        >
+          {pendingCount > 0 ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] text-primary-foreground">
+              {pendingCount}
+            </span>
+          )}
+          <span className="sr-only">Recent activity</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Activity</SheetTitle>
+          <SheetDescription>Transactions sent from this browser.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 py-4">
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center">No transactions yet.</p>
+          ) : (
+            visible.map((tx) => {
+              const explorerUrl = isSupportedChain(tx.chainId)
+                ? getExplorerUrl(getChainConfig(tx.chainId), 'tx', tx.hash)
+                : undefined
+              return (
+                <div key={tx.hash} className="flex items-start gap-3 bg-background p-3 rounded-lg border border-border">
+                  <div className="mt-0.5">
+                    <StatusIcon status={tx.status} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-semibold text-foreground">{getTransactionLabel(tx.type)}</div>
+                    <div className="text-sm text-muted-foreground truncate">{describeTransaction(tx)}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(tx.createdAt).toLocaleString()}</div>
+                  </div>
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      <span className="sr-only">View on explorer</span>
+                    </a>
+                  ) : (
+                    <span className="font-mono text-xs text-muted-foreground">{tx.hash.slice(0, 10)}…</span>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        {visible.some((tx) => tx.status !== 'pending') && (
+          <Button variant="outline" onClick={clearTransactions}>
+            Clear finished
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,451 @@
+"use client"
+
+import { useState } from "react"
+import { useAccount, usePublicClient, useWriteContract } from "wagmi"
+import { zeroAddress, type Address, type Hash } from "viem"
+import { Loader2, RefreshCw, Shield } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useFeeTiers } from "@/hooks/use-fee-tiers"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { useProtocolFeeAccruals, useProtocolFeeSettings } from "@/hooks/use-protocol-fee"
+import { useRecipient } from "@/hooks/use-recipient"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { addTransaction } from "@/hooks/use-transactions"
+import { formatTokenAmount, lpUnit } from "@/lib/amounts"
+import { DEFAULT_FEE_TIER, LP_TOKEN_SYMBOL, SIMPLESWAP_ABI } from "@/lib/constants"
+import { getErrorMessage } from "@/lib/errors"
+import { formatShare, getUnderlyingAmounts } from "@/lib/positions"
+import { findToken } from "@/lib/token-registry"
+import { formatBps } from "@/lib/transaction-settings"
+
+function shortAddress(address: Address): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
+
+// "16.67" (a percentage) -> 1667, or undefined if it isn't a whole number of basis points
+function parsePercentBps(value: string): number | undefined {
+  const trimmed = value.trim()
+  if (!/^\d+(\.\d{0,2})?$/.test(trimmed)) return undefined
+  return Math.round(Number(trimmed) * 100)
+}
+
+/**
+ * Owner-only settings for SimpleSwap's protocol fee: where it's minted, the
+ * share of the swap fee it takes, and what has accrued in each pool. Also
+ * lets the owner enable new fee tiers, and the pending owner accept ownership.
+ */
+export function AdminPanel() {
+  const [feeToInput, setFeeToInput] = useState("")
+  const [feeShareInput, setFeeShareInput] = useState("")
+  const [feeTierInput, setFeeTierInput] = useState("")
+  const [pendingAction, setPendingAction] = useState<"feeTo" | "disable" | "feeShare" | "feeTier" | "acceptOwnership" | undefined>()
+
+  const { address, chainId } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const publicClient = usePublicClient()
+  const { simpleSwapAddress } = useChainConfig()
+  const { isWrongNetwork } = useNetworkStatus()
+  const { tokens } = useTokenRegistry()
+  const settings = useProtocolFeeSettings()
+  const { feeTiers, maxFee, refetch: refetchFeeTiers } = useFeeTiers()
+  const { accruals, isLoading: isLoadingAccruals, error: accrualsError, refetch } = useProtocolFeeAccruals(settings.feeTo)
+  const newFeeTo = useRecipient(feeToInput)
+
+  const newFeeShareBps = parsePercentBps(feeShareInput)
+  const isFeeShareValid =
+    newFeeShareBps !== undefined && settings.maxProtocolFeeBps !== undefined && newFeeShareBps <= settings.maxProtocolFeeBps
+  const isFeeOn = !!settings.feeTo && !!settings.protocolFeeBps
+  const newFeeTier = parsePercentBps(feeTierInput)
+  const isFeeTierValid =
+    newFeeTier !== undefined && newFeeTier > 0 && maxFee !== undefined && newFeeTier <= maxFee && !feeTiers.includes(newFeeTier)
+
+  const sendAdminTransaction = async (
+    action: NonNullable<typeof pendingAction>,
+    call:
+      | { functionName: "setFeeTo"; args: readonly [Address] }
+      | { functionName: "setProtocolFee"; args: readonly [number] }
+      | { functionName: "enableFeeTier"; args: readonly [number] }
+      | { functionName: "acceptOwnership"; args: readonly [] },
+    pendingMessage: string
+  ) => {
+    if (call.functionName === "acceptOwnership" ? !settings.isPendingOwner : !settings.isOwner) {
+      toast.error(
+        call.functionName === "acceptOwnership"
+          ? "Only the pending owner can accept ownership"
+          : "Only the SimpleSwap owner can change these settings"
+      )
+      return
+    }
+
+    if (!address || !chainId) {
+      toast.error("Please connect your wallet first")
+      return
+    }
+
+    if (isWrongNetwork) {
+      toast.error("Switch to a supported network to change the protocol fee")
+      return
+    }
+
+    if (!publicClient) {
+      toast.error("Public client not available")
+      return
+    }
+
+    setPendingAction(action)
+    try {
+      let hash: Hash
+      if (call.functionName === "setFeeTo") {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: "setFeeTo",
+          args: call.args,
+          account: address,
+        })
+        hash = await writeContractAsync(request)
+      } else if (call.functionName === "setProtocolFee") {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: "setProtocolFee",
+          args: call.args,
+          account: address,
+        })
+        hash = await writeContractAsync(request)
+      } else if (call.functionName === "enableFeeTier") {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: "enableFeeTier",
+          args: call.args,
+          account: address,
+        })
+        hash = await writeContractAsync(request)
+      } else {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: "acceptOwnership",
+          account: address,
+        })
+        hash = await writeContractAsync(request)
+      }
+      const type =
+        call.functionName === "enableFeeTier"
+          ? "feeTier"
+          : call.functionName === "acceptOwnership"
+            ? "ownership"
+            : "protocolFee"
+      addTransaction({ hash, chainId, account: address, type, tokens: [] })
+
+      // The transaction watcher reports the outcome; this toast only covers the wait
+      const toastId = toast.loading(pendingMessage)
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      toast.dismiss(toastId)
+
+      if (receipt.status === "success") {
+        setFeeToInput("")
+        setFeeShareInput("")
+        setFeeTierInput("")
+        await Promise.all([settings.refetch(), refetchFeeTiers()])
+        refetch()
+      }
+    } catch (error) {
+      console.error("Error updating fee settings:", error)
+      toast.error(getErrorMessage(error, "Failed to update the fee settings"))
+    } finally {
+      setPendingAction(undefined)
+    }
+  }
+
+  if (!settings.isOwner && settings.isPendingOwner) {
+    return (
+      <Card className="bg-card border border-border">
+        <CardContent className="pt-6 space-y-4">
+          <div className="text-center text-muted-foreground">
+            <Shield className="w-8 h-8 mx-auto mb-2" />
+            <p>
+              {settings.owner ? shortAddress(settings.owner) : "The owner"} has offered you ownership of SimpleSwap.
+              Accept it to manage the protocol fee and fee tiers.
+            </p>
+          </div>
+          <Button
+            onClick={() =>
+              sendAdminTransaction("acceptOwnership", { functionName: "acceptOwnership", args: [] }, "Accepting ownership...")
+            }
+            disabled={!!pendingAction}
+            className="w-full"
+          >
+            {pendingAction === "acceptOwnership" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Accept ownership"}
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!settings.isOwner) {
+    return (
+      <Card className="bg-card border border-border">
+        <CardContent className="pt-6">
+          <div className="text-center text-muted-foreground">
+            <Shield className="w-8 h-8 mx-auto mb-2" />
+            <p>Only the SimpleSwap owner can manage the protocol fee</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-foreground">
+            <span>Protocol Fee</span>
+            <Badge variant="outline" className="text-muted-foreground">
+              {isFeeOn ? "On" : "Off"}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Owner:</span>
+            <span className="font-mono text-foreground">{settings.owner && shortAddress(settings.owner)}</span>
+          </div>
+          {settings.pendingOwner && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Pending owner:</span>
+              <span className="font-mono text-foreground">{shortAddress(settings.pendingOwner)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Fee tiers:</span>
+            <span className="text-foreground">{feeTiers.map((fee) => formatBps(fee)).join(", ")}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Fee recipient (feeTo):</span>
+            <span className="font-mono text-foreground">{settings.feeTo ? shortAddress(settings.feeTo) : "Not set"}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Share of the swap fee:</span>
+            <span className="text-foreground">
+              {settings.protocolFeeBps !== undefined ? formatBps(settings.protocolFeeBps) : "—"}
+              {settings.protocolFeeBps
+                ? ` (${formatBps((DEFAULT_FEE_TIER * settings.protocolFeeBps) / 10_000, 4)} of each trade in a ${formatBps(DEFAULT_FEE_TIER)} pool)`
+                : ""}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The fee is paid in {LP_TOKEN_SYMBOL} tokens, minted to the recipient the next time liquidity is added to or
+            removed from a pool. It is only collected while both a recipient and a share are set.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border border-border">
+        <CardHeader>
+          <CardTitle className="text-foreground">Settings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="fee-to" className="text-muted-foreground">Fee recipient</Label>
+            <div className="flex gap-2">
+              <Input
+                id="fee-to"
+                placeholder="0x... or name.eth"
+                value={feeToInput}
+                onChange={(e) => setFeeToInput(e.target.value)}
+                className="bg-secondary border-border font-mono"
+              />
+              <Button
+                onClick={() =>
+                  newFeeTo.address &&
+                  sendAdminTransaction("feeTo", { functionName: "setFeeTo", args: [newFeeTo.address] }, "Updating fee recipient...")
+                }
+                disabled={!newFeeTo.address || !!pendingAction}
+                className="shrink-0"
+              >
+                {pendingAction === "feeTo" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Set"}
+              </Button>
+            </div>
+            {newFeeTo.isResolving && <p className="text-xs text-muted-foreground">Resolving...</p>}
+            {newFeeTo.error && <p className="text-xs text-red-500">{newFeeTo.error}</p>}
+            {newFeeTo.isSimpleSwap && (
+              <p className="text-xs text-red-500">LP tokens sent to the SimpleSwap contract can't be recovered.</p>
+            )}
+            {settings.feeTo && (
+              <Button
+                variant="link"
+                size="sm"
+                className="px-0 h-auto"
+                onClick={() =>
+                  sendAdminTransaction("disable", { functionName: "setFeeTo", args: [zeroAddress] }, "Turning off the protocol fee...")
+                }
+                disabled={!!pendingAction}
+              >
+                {pendingAction === "disable" ? "Turning off..." : "Turn off the protocol fee"}
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fee-share" className="text-muted-foreground">
+              Share of the swap fee (%)
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="fee-share"
+                placeholder={settings.maxProtocolFeeBps !== undefined ? `0 - ${settings.maxProtocolFeeBps / 100}` : "0"}
+                value={feeShareInput}
+                onChange={(e) => setFeeShareInput(e.target.value)}
+                className="bg-secondary border-border"
+              />
+              <Button
+                onClick={() =>
+                  newFeeShareBps !== undefined &&
+                  sendAdminTransaction(
+                    "feeShare",
+                    { functionName: "setProtocolFee", args: [newFeeShareBps] },
+                    "Updating protocol fee share..."
+                  )
+                }
+                disabled={!isFeeShareValid || !!pendingAction}
+                className="shrink-0"
+              >
+                {pendingAction === "feeShare" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Set"}
+              </Button>
+            </div>
+            {feeShareInput && !isFeeShareValid && settings.maxProtocolFeeBps !== undefined && (
+              <p className="text-xs text-red-500">
+                Enter a share between 0% and {formatBps(settings.maxProtocolFeeBps)}, with at most two decimals.
+              </p>
+            )}
+            {isFeeShareValid && newFeeShareBps !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                In a {formatBps(DEFAULT_FEE_TIER)} pool the protocol would take{" "}
+                {formatBps((DEFAULT_FEE_TIER * newFeeShareBps) / 10_000, 4)} of each trade and LPs{" "}
+                {formatBps((DEFAULT_FEE_TIER * (10_000 - newFeeShareBps)) / 10_000, 4)}. Uniswap V2 uses 16.67%.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fee-tier" className="text-muted-foreground">
+              New fee tier (%)
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="fee-tier"
+                placeholder={maxFee !== undefined ? `0.01 - ${maxFee / 100}` : "0.01"}
+                value={feeTierInput}
+                onChange={(e) => setFeeTierInput(e.target.value)}
+                className="bg-secondary border-border"
+              />
+              <Button
+                onClick={() =>
+                  newFeeTier !== undefined &&
+                  sendAdminTransaction(
+                    "feeTier",
+                    { functionName: "enableFeeTier", args: [newFeeTier] },
+                    "Enabling fee tier..."
+                  )
+                }
+                disabled={!isFeeTierValid || !!pendingAction}
+                className="shrink-0"
+              >
+                {pendingAction === "feeTier" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Enable"}
+              </Button>
+            </div>
+            {feeTierInput && !isFeeTierValid && maxFee !== undefined && (
+              <p className="text-xs text-red-500">
+                Enter a fee between 0.01% and {formatBps(maxFee)} that isn't already a tier, with at most two decimals.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Anyone can then create pools with this fee. Fee tiers can't be disabled once enabled.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-foreground">Accrued fees</span>
+          <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isLoadingAccruals}>
+            {isLoadingAccruals ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </div>
+
+        {!settings.feeTo && (
+          <p className="text-sm text-muted-foreground">Set a fee recipient to start collecting protocol fees.</p>
+        )}
+
+        {accrualsError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">⚠️ Could not load the accrued fees. Please try again.</p>
+          </div>
+        )}
+
+        {settings.feeTo && !isLoadingAccruals && !accrualsError && accruals.every((pool) => !pool.minted && !pool.pending) && (
+          <p className="text-sm text-muted-foreground">No protocol fees have accrued yet.</p>
+        )}
+
+        {accruals
+          .filter((pool) => pool.minted > 0n || pool.pending > 0n)
+          .map((pool) => {
+            const token0 = findToken(tokens, pool.tokenA)
+            const token1 = findToken(tokens, pool.tokenB)
+            const symbol0 = token0?.symbol ?? shortAddress(pool.tokenA)
+            const symbol1 = token1?.symbol ?? shortAddress(pool.tokenB)
+            const unit = token0 && token1 ? lpUnit(token0, token1) : undefined
+            const formatLp = (amount: bigint) => (unit ? formatTokenAmount(amount, unit, 6) : amount.toString())
+
+            // Pending fees are minted before the pool's next liquidity change, which grows the supply by as much
+            const accrued = pool.minted + pool.pending
+            const supply = pool.totalLiquidity + pool.pending
+            const [amount0, amount1] = getUnderlyingAmounts(accrued, pool.reserveA, pool.reserveB, supply)
+
+            return (
+              <Card key={pool.index} className="bg-card border border-border">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-foreground">
+                    <span className="flex items-center gap-2">
+                      {symbol0}/{symbol1}
+                      <Badge variant="secondary">{formatBps(pool.fee)}</Badge>
+                    </span>
+                    <Badge variant="outline" className="text-muted-foreground">
+                      {formatShare(accrued, supply)} of pool
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Minted to recipient:</span>
+                    <span className="text-foreground">{formatLp(pool.minted)} {LP_TOKEN_SYMBOL}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Pending:</span>
+                    <span className="text-foreground">{formatLp(pool.pending)} {LP_TOKEN_SYMBOL}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Redeemable for:</span>
+                    <span className="text-foreground">
+                      {token0 ? formatTokenAmount(amount0, token0, 6) : amount0.toString()} {symbol0} +{" "}
+                      {token1 ? formatTokenAmount(amount1, token1, 6) : amount1.toString()} {symbol1}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+      </div>
+    </div>
+  )
+}
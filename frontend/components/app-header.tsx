@@ -2,6 +2,8 @@
 
 import { ThemeToggle } from './theme-toggle'
 import { WalletConnect } from './wallet-connect'
+import { NetworkBanner } from './network-banner'
+import { ActivityDrawer } from './activity-drawer'
 
 export function AppHeader() {
   return (
@@ -14,14 +16,16 @@ export function AppHeader() {
           <h1 className="text-3xl md:text-4xl font-bold tracking-tight">
             Simple<span style={{ color: '#00ADB5' }}>Swap</span>
           </h1>
-          <p className="text-sm md:text-base text-muted-foreground mt-1">Decentralized Exchange on Ethereum Sepolia</p>
+          <p className="text-sm md:text-base text-muted-foreground mt-1">Decentralized Exchange</p>
         </div>
         {/* Derecha: botones SIEMPRE visibles */}
         <div className="flex items-center gap-4">
           <ThemeToggle />
+          <ActivityDrawer />
           <WalletConnect />
         </div>
       </div>
+      <NetworkBanner />
     </header>
   )
 }
@@ -0,0 +1,37 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { useFeeTiers } from "@/hooks/use-fee-tiers"
+import { formatBps } from "@/lib/transaction-settings"
+
+interface FeeTierSelectProps {
+  value: number
+  onValueChange: (fee: number) => void
+}
+
+/**
+ * Picks one of SimpleSwap's enabled fee tiers. Each tier of a pair is a
+ * separate pool, so this selects which pool of the pair is shown.
+ */
+export function FeeTierSelect({ value, onValueChange }: FeeTierSelectProps) {
+  const { feeTiers } = useFeeTiers()
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-muted-foreground">Fee tier</Label>
+      <div className="flex gap-2">
+        {feeTiers.map((fee) => (
+          <Button
+            key={fee}
+            size="sm"
+            variant={value === fee ? "default" : "outline"}
+            onClick={() => onValueChange(fee)}
+          >
+            {formatBps(fee)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -4,19 +4,49 @@ import { useState, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Plus, Minus, Loader2 } from "lucide-react"
-import { useAccount, useWriteContract, useReadContract } from "wagmi"
-import { parseEther, formatEther, type Address } from "viem"
+import { useAccount, useWriteContract, useReadContract, usePublicClient, useWalletClient } from "wagmi"
+import { zeroAddress, type Address } from "viem"
 import { toast } from "sonner"
-import { SIMPLESWAP_ABI, SIMPLESWAP_ADDRESS, SUPPORTED_TOKENS } from "@/lib/constants"
+import { DEFAULT_FEE_TIER, LP_TOKEN_SYMBOL, SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { usePermitDomain } from "@/hooks/use-permit-domain"
+import { useRecipient } from "@/hooks/use-recipient"
+import { useRequireWallet } from "@/hooks/use-require-wallet"
+import { addTransaction } from "@/hooks/use-transactions"
+import { toTransactionToken } from "@/lib/transactions"
+import { FeeTierSelect } from "./fee-tier-select"
+import { LpTokenInfo } from "./lp-token-info"
+import { RecipientInput } from "./recipient-input"
 import { TokenApproval } from "./token-approval"
-
-export function LiquidityInterface() {
-  const [tokenA, setTokenA] = useState<`0x${string}` | ''>('')
-  const [tokenB, setTokenB] = useState<`0x${string}` | ''>('')
+import { TokenSelect } from "./token-select"
+import { TransactionSettingsPanel } from "./transaction-settings"
+import { formatTokenAmount, lpUnit, parseTokenAmount } from "@/lib/amounts"
+import {
+  MINIMUM_LIQUIDITY,
+  formatShare,
+  getInitialLiquidity,
+  getUnderlyingAmounts,
+  type TokenPair,
+} from "@/lib/positions"
+import { applySlippage, getDeadline } from "@/lib/transaction-settings"
+import { useTransactionSettings } from "@/hooks/use-transaction-settings"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { findToken } from "@/lib/token-registry"
+import { getErrorMessage } from "@/lib/errors"
+import { NO_PERMIT, signPermit } from "@/lib/permit"
+
+interface LiquidityInterfaceProps {
+  initialPair?: TokenPair
+}
+
+export function LiquidityInterface({ initialPair }: LiquidityInterfaceProps = {}) {
+  const [tokenA, setTokenA] = useState<`0x${string}` | ''>(initialPair?.tokenA.address ?? '')
+  const [tokenB, setTokenB] = useState<`0x${string}` | ''>(initialPair?.tokenB.address ?? '')
+  const [fee, setFee] = useState(initialPair?.fee ?? DEFAULT_FEE_TIER)
   const [amountA, setAmountA] = useState('')
   const [amountB, setAmountB] = useState('')
   const [isTokenAApproved, setIsTokenAApproved] = useState(false)
@@ -24,56 +54,110 @@ export function LiquidityInterface() {
   const [liquidityAmount, setLiquidityAmount] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [needsApproval, setNeedsApproval] = useState({ tokenA: false, tokenB: false })
+  const [isRecipientOpen, setIsRecipientOpen] = useState(false)
+  const [recipientInput, setRecipientInput] = useState("")
+
+  const { isConnected, address, chainId } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
+  const { chain, simpleSwapAddress } = useChainConfig()
+  const { isWrongNetwork } = useNetworkStatus()
+  const { isConnecting, requestWallet } = useRequireWallet()
+  const { settings, slippageBps } = useTransactionSettings()
+  const { tokens } = useTokenRegistry()
+
+  const tokenAInfo = useMemo(() => findToken(tokens, tokenA), [tokens, tokenA])
+  const tokenBInfo = useMemo(() => findToken(tokens, tokenB), [tokens, tokenB])
+  const permitDomainA = usePermitDomain(tokenA)
+  const permitDomainB = usePermitDomain(tokenB)
+  const liquidityUnit = useMemo(
+    () => (tokenAInfo && tokenBInfo ? lpUnit(tokenAInfo, tokenBInfo) : undefined),
+    [tokenAInfo, tokenBInfo]
+  )
 
-  const { isConnected, address } = useAccount()
-  const { writeContract } = useWriteContract()
+  // Amounts in each token's base units (undefined while the input is empty or invalid)
+  const parsedAmountA = useMemo(() => parseTokenAmount(amountA, tokenAInfo), [amountA, tokenAInfo])
+  const parsedAmountB = useMemo(() => parseTokenAmount(amountB, tokenBInfo), [amountB, tokenBInfo])
+  const parsedLiquidityAmount = useMemo(
+    () => parseTokenAmount(liquidityAmount, liquidityUnit),
+    [liquidityAmount, liquidityUnit]
+  )
 
-  // Get reserves for the token pair
-  const { data: reservesData } = useReadContract({
-    address: SIMPLESWAP_ADDRESS,
+  // Reserves, total LP supply and the user's LP balance for the pair's pool in the selected tier, in one call
+  const { data: poolInfo, refetch: refetchPoolInfo } = useReadContract({
+    address: simpleSwapAddress,
     abi: SIMPLESWAP_ABI,
-    functionName: 'getReserves',
-    args: tokenA && tokenB ? [tokenA, tokenB] as const : undefined,
+    functionName: 'getPoolInfo',
+    chainId: chain.id,
+    args: tokenA && tokenB ? [tokenA, tokenB, fee, address ?? zeroAddress] as const : undefined,
     query: {
       enabled: !!(tokenA && tokenB),
     },
   })
-  
-  // Parse reserves data into a more usable format
+
+  // Pool state, or null while the pair has no liquidity
   const reserves = useMemo(() => {
-    if (!reservesData) return null;
-    // Handle case where reserves might be in different formats
-    if (Array.isArray(reservesData) && reservesData.length >= 2) {
-      return {
-        reserveA: reservesData[0],
-        reserveB: reservesData[1]
-      };
-    }
-    return null;
-  }, [reservesData]);
+    if (!poolInfo) return null;
+    const [reserveA, reserveB, totalLiquidity] = poolInfo;
+    if (reserveA === 0n || reserveB === 0n) return null;
+    return { reserveA, reserveB, totalLiquidity };
+  }, [poolInfo]);
+
+  // User's LP balance for the selected pair, as tracked by the contract
+  const userLiquidity = address && poolInfo ? poolInfo[3] : undefined
+
+  // The next deposit creates the pool: it sets the price and part of it is locked
+  const isNewPool = !!poolInfo && poolInfo[2] === 0n
+  const initialLiquidity =
+    isNewPool && parsedAmountA && parsedAmountB ? getInitialLiquidity(parsedAmountA, parsedAmountB) : undefined
+
+  // The pool's ERC-20 LP token, undefined until the pool has been created
+  const { data: lpTokenAddress } = useReadContract({
+    address: simpleSwapAddress,
+    abi: SIMPLESWAP_ABI,
+    functionName: 'getLpToken',
+    chainId: chain.id,
+    args: tokenA && tokenB ? [tokenA, tokenB, fee] as const : undefined,
+    query: {
+      enabled: !!(tokenA && tokenB),
+    },
+  })
+  const lpToken = lpTokenAddress && lpTokenAddress !== zeroAddress ? lpTokenAddress : undefined
 
-  // Calculate user's share of liquidity based on reserves
-  const userLiquidity = useMemo(() => {
-    if (!reserves || !amountA || !amountB) return 0n;
-    
-    try {
-      const { reserveA, reserveB } = reserves;
-      const amountABigInt = parseEther(amountA);
-      const amountBBigInt = parseEther(amountB);
-      
-      // Simple calculation - in a real DEX, this would use the actual LP token calculation
-      if (reserveA > 0n && reserveB > 0n) {
-        const liquidityA = (amountABigInt * 1000n) / reserveA;
-        const liquidityB = (amountBBigInt * 1000n) / reserveB;
-        return liquidityA < liquidityB ? liquidityA : liquidityB;
+  // Removing liquidity pulls the LP tokens with transferFrom, so it needs an allowance
+  const { data: lpAllowance } = useReadContract({
+    address: lpToken,
+    abi: [
+      {
+        inputs: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' }
+        ],
+        name: 'allowance',
+        outputs: [{ name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function'
       }
-      
-      return 0n;
-    } catch (error) {
-      console.error('Error calculating liquidity:', error);
-      return 0n;
+    ],
+    functionName: 'allowance',
+    args: [address!, simpleSwapAddress],
+    query: {
+      enabled: !!(lpToken && address),
+      refetchInterval: 2000 // Check every 2 seconds
     }
-  }, [reserves, amountA, amountB]);
+  })
+  const needsLpApproval = !!parsedLiquidityAmount && (lpAllowance ?? 0n) < parsedLiquidityAmount
+
+  // Where removed liquidity goes: the connected account unless another recipient was entered
+  const recipient = useRecipient(recipientInput)
+  const recipientAddress = recipientInput.trim() ? recipient.address : address
+
+  // Tokens the entered LP amount would redeem for
+  const removalPreview = useMemo(() => {
+    if (!reserves || !parsedLiquidityAmount) return undefined;
+    return getUnderlyingAmounts(parsedLiquidityAmount, reserves.reserveA, reserves.reserveB, reserves.totalLiquidity);
+  }, [reserves, parsedLiquidityAmount]);
 
   // Check token allowances when tokens or address changes
   const { data: allowanceA } = useReadContract({
@@ -93,7 +177,7 @@ export function LiquidityInterface() {
       }
     ],
     functionName: 'allowance',
-    args: [address!, SIMPLESWAP_ADDRESS],
+    args: [address!, simpleSwapAddress],
     query: {
       enabled: !!(tokenA && address),
       refetchInterval: 2000 // Check every 2 seconds
@@ -117,7 +201,7 @@ export function LiquidityInterface() {
       }
     ],
     functionName: 'allowance',
-    args: [address!, SIMPLESWAP_ADDRESS],
+    args: [address!, simpleSwapAddress],
     query: {
       enabled: !!(tokenB && address),
       refetchInterval: 2000 // Check every 2 seconds
@@ -125,7 +209,7 @@ export function LiquidityInterface() {
   })
 
   // Get token balances
-  const { data: tokenBalanceA } = useReadContract({
+  const { data: tokenBalanceA, refetch: refetchBalanceA } = useReadContract({
     address: tokenA as `0x${string}`,
     abi: [
       {
@@ -144,7 +228,7 @@ export function LiquidityInterface() {
     },
   })
 
-  const { data: tokenBalanceB } = useReadContract({
+  const { data: tokenBalanceB, refetch: refetchBalanceB } = useReadContract({
     address: tokenB as `0x${string}`,
     abi: [
       {
@@ -163,18 +247,31 @@ export function LiquidityInterface() {
     },
   })
 
+  // Re-read reserves and balances once a liquidity change is confirmed
+  const refreshPoolState = () => {
+    refetchPoolInfo()
+    refetchBalanceA()
+    refetchBalanceB()
+  }
+
   // Update approval status when allowances change
   useEffect(() => {
     if (tokenA && tokenB && allowanceA !== undefined && allowanceB !== undefined) {
-      const amountABigInt = amountA ? parseEther(amountA) : 0n
-      const amountBBigInt = amountB ? parseEther(amountB) : 0n
+      const amountABigInt = parsedAmountA ?? 0n
+      const amountBBigInt = parsedAmountB ?? 0n
       
       setNeedsApproval({
         tokenA: allowanceA < amountABigInt,
         tokenB: allowanceB < amountBBigInt
       })
     }
-  }, [tokenA, tokenB, allowanceA, allowanceB, amountA, amountB])
+  }, [tokenA, tokenB, allowanceA, allowanceB, parsedAmountA, parsedAmountB])
+
+  // Tokens with permit support are approved by a signature inside the add liquidity call
+  const approvalRequired = {
+    tokenA: needsApproval.tokenA && !permitDomainA,
+    tokenB: needsApproval.tokenB && !permitDomainB,
+  }
 
   const handleAddLiquidity = async () => {
     if (!isConnected || !tokenA || !tokenB || !amountA || !amountB) {
@@ -182,15 +279,20 @@ export function LiquidityInterface() {
       return
     }
 
-    // Check if both tokens are approved
-    if (needsApproval.tokenA || needsApproval.tokenB) {
+    if (isWrongNetwork) {
+      toast.error("Switch to a supported network to add liquidity")
+      return
+    }
+
+    // Check if both tokens are approved or can be permitted
+    if (approvalRequired.tokenA || approvalRequired.tokenB) {
       toast.error("Please approve both tokens before adding liquidity")
       return
     }
 
     // Check if amounts are valid
-    const amountABigInt = parseEther(amountA)
-    const amountBBigInt = parseEther(amountB)
+    const amountABigInt = parsedAmountA ?? 0n
+    const amountBBigInt = parsedAmountB ?? 0n
     
     if (amountABigInt <= 0n || amountBBigInt <= 0n) {
       toast.error("Please enter valid amounts greater than 0")
@@ -199,67 +301,132 @@ export function LiquidityInterface() {
 
     // Check if user has sufficient balance
     if (tokenBalanceA && amountABigInt > tokenBalanceA) {
-      toast.error(`Insufficient ${SUPPORTED_TOKENS.find(t => t.address === tokenA)?.symbol} balance`)
+      toast.error(`Insufficient ${tokenAInfo?.symbol} balance`)
       return
     }
 
     if (tokenBalanceB && amountBBigInt > tokenBalanceB) {
-      toast.error(`Insufficient ${SUPPORTED_TOKENS.find(t => t.address === tokenB)?.symbol} balance`)
+      toast.error(`Insufficient ${tokenBInfo?.symbol} balance`)
+      return
+    }
+
+    if (!publicClient) {
+      toast.error("Public client not available")
+      return
+    }
+
+    if ((needsApproval.tokenA || needsApproval.tokenB) && !walletClient) {
+      toast.error("Wallet client not available")
       return
     }
 
     setIsLoading(true)
     try {
+      const deadline = getDeadline(settings.deadlineMinutes)
+
+      // Sign a permit for each token that still needs an allowance; the rest pass NO_PERMIT
+      const permitA =
+        needsApproval.tokenA && permitDomainA
+          ? await signPermit(walletClient!, publicClient, {
+              token: tokenA as Address,
+              domain: permitDomainA,
+              owner: address!,
+              spender: simpleSwapAddress,
+              value: amountABigInt,
+              deadline,
+            })
+          : NO_PERMIT
+      const permitB =
+        needsApproval.tokenB && permitDomainB
+          ? await signPermit(walletClient!, publicClient, {
+              token: tokenB as Address,
+              domain: permitDomainB,
+              owner: address!,
+              spender: simpleSwapAddress,
+              value: amountBBigInt,
+              deadline,
+            })
+          : NO_PERMIT
+
+      // Simulates addLiquidity, or addLiquidityWithPermit when a permit was
+      // signed, and returns the quoted amounts with a sender for that request
+      const simulateAdd = async (amountAMin: bigint, amountBMin: bigint) => {
+        const args = [
+          tokenA as Address,
+          tokenB as Address,
+          fee,
+          amountABigInt,
+          amountBBigInt,
+          amountAMin,
+          amountBMin,
+          address!,
+          deadline,
+        ] as const
+        if (permitA === NO_PERMIT && permitB === NO_PERMIT) {
+          const { result, request } = await publicClient.simulateContract({
+            address: simpleSwapAddress,
+            abi: SIMPLESWAP_ABI,
+            functionName: "addLiquidity",
+            args,
+            account: address,
+          })
+          return { result, write: () => writeContractAsync(request) }
+        }
+        const { result, request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: "addLiquidityWithPermit",
+          args: [...args, permitA, permitB],
+          account: address,
+        })
+        return { result, write: () => writeContractAsync(request) }
+      }
+
+      // Quote the amounts the pool would actually take, then apply the slippage tolerance
+      const { result: [quotedA, quotedB] } = await simulateAdd(0n, 0n)
+      const amountAMin = applySlippage(quotedA, slippageBps)
+      const amountBMin = applySlippage(quotedB, slippageBps)
+
       console.log("Adding liquidity with params:", {
         tokenA,
         tokenB,
+        fee,
         amountA: amountABigInt.toString(),
         amountB: amountBBigInt.toString(),
-        amountAMin: parseEther((Number.parseFloat(amountA) * 0.95).toString()).toString(),
-        amountBMin: parseEther((Number.parseFloat(amountB) * 0.95).toString()).toString(),
+        amountAMin: amountAMin.toString(),
+        amountBMin: amountBMin.toString(),
         to: address,
-        deadline: BigInt(Math.floor(Date.now() / 1000) + 1200).toString()
+        deadline: deadline.toString()
       })
 
-      const result = await writeContract({
-        address: SIMPLESWAP_ADDRESS,
-        abi: SIMPLESWAP_ABI,
-        functionName: "addLiquidity",
-        args: [
-          tokenA as Address,
-          tokenB as Address,
-          amountABigInt,
-          amountBBigInt,
-          parseEther((Number.parseFloat(amountA) * 0.95).toString()), // 5% slippage
-          parseEther((Number.parseFloat(amountB) * 0.95).toString()), // 5% slippage
-          address!,
-          BigInt(Math.floor(Date.now() / 1000) + 1200), // 20 minutes deadline
-        ],
-      })
+      // Simulate the final call so a revert is reported before the wallet opens
+      const { write } = await simulateAdd(amountAMin, amountBMin)
+      const hash = await write()
+
+      if (tokenAInfo && tokenBInfo && chainId) {
+        addTransaction({
+          hash,
+          chainId,
+          account: address!,
+          type: "addLiquidity",
+          tokens: [toTransactionToken(tokenAInfo, amountABigInt), toTransactionToken(tokenBInfo, amountBBigInt)],
+        })
+      }
 
-      console.log("Add liquidity transaction sent:", result)
-      toast.success("Liquidity added successfully!")
-      setAmountA("")
-      setAmountB("")
-    } catch (error: any) {
+      // The transaction watcher reports the outcome; this toast only covers the wait
+      const toastId = toast.loading("Adding liquidity...")
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      toast.dismiss(toastId)
+
+      if (receipt.status === "success") {
+        setAmountA("")
+        setAmountB("")
+        refreshPoolState()
+      }
+    } catch (error) {
       console.error("Add liquidity failed:", error)
       
-      // Provide more specific error messages
-      if (error.message?.includes("SS:INA")) {
-        toast.error("Invalid amounts provided")
-      } else if (error.message?.includes("SS:IZA")) {
-        toast.error("Invalid token addresses")
-      } else if (error.message?.includes("SS:IR")) {
-        toast.error("Invalid recipient address")
-      } else if (error.message?.includes("SS:EXP")) {
-        toast.error("Transaction deadline expired")
-      } else if (error.message?.includes("insufficient allowance")) {
-        toast.error("Please approve tokens first")
-      } else if (error.message?.includes("insufficient balance")) {
-        toast.error("Insufficient token balance")
-      } else {
-        toast.error(`Failed to add liquidity: ${error.message || "Unknown error"}`)
-      }
+      toast.error(getErrorMessage(error, "Failed to add liquidity"))
     } finally {
       setIsLoading(false)
     }
@@ -271,41 +438,91 @@ export function LiquidityInterface() {
       return
     }
 
+    if (isWrongNetwork) {
+      toast.error("Switch to a supported network to remove liquidity")
+      return
+    }
+
     // Validate liquidity amount
-    const liquidityAmountBigInt = parseEther(liquidityAmount)
+    const liquidityAmountBigInt = parsedLiquidityAmount ?? 0n
     if (liquidityAmountBigInt <= 0n) {
       toast.error("Please enter a valid liquidity amount")
       return
     }
 
     // Check if user has sufficient liquidity
-    if (userLiquidity && liquidityAmountBigInt > userLiquidity) {
+    if (userLiquidity === undefined || liquidityAmountBigInt > userLiquidity) {
       toast.error("Insufficient liquidity balance")
       return
     }
 
+    if (!recipientAddress) {
+      toast.error("Enter a valid recipient address")
+      return
+    }
+
+    if (needsLpApproval) {
+      toast.error("Please approve the LP tokens before removing liquidity")
+      return
+    }
+
+    if (!publicClient) {
+      toast.error("Public client not available")
+      return
+    }
+
     setIsLoading(true)
     try {
-      await writeContract({
-        address: SIMPLESWAP_ADDRESS,
+      const deadline = getDeadline(settings.deadlineMinutes)
+
+      // Quote the amounts the burn would return, then apply the slippage tolerance
+      const { result: [quotedA, quotedB] } = await publicClient.simulateContract({
+        address: simpleSwapAddress,
         abi: SIMPLESWAP_ABI,
         functionName: "removeLiquidity",
+        args: [tokenA as Address, tokenB as Address, fee, liquidityAmountBigInt, 0n, 0n, recipientAddress, deadline],
+        account: address,
+      })
+
+      const { request } = await publicClient.simulateContract({
+        address: simpleSwapAddress,
+        abi: SIMPLESWAP_ABI,
+        functionName: "removeLiquidity",
+        account: address,
         args: [
           tokenA as Address,
           tokenB as Address,
-          parseEther(liquidityAmount),
-          BigInt(0), // Min amount A
-          BigInt(0), // Min amount B
-          address!,
-          BigInt(Math.floor(Date.now() / 1000) + 1200), // 20 minutes deadline
+          fee,
+          liquidityAmountBigInt,
+          applySlippage(quotedA, slippageBps),
+          applySlippage(quotedB, slippageBps),
+          recipientAddress,
+          deadline,
         ],
       })
+      const hash = await writeContractAsync(request)
+
+      if (tokenAInfo && tokenBInfo && chainId) {
+        addTransaction({
+          hash,
+          chainId,
+          account: address!,
+          type: "removeLiquidity",
+          tokens: [toTransactionToken(tokenAInfo, quotedA), toTransactionToken(tokenBInfo, quotedB)],
+        })
+      }
+
+      const toastId = toast.loading("Removing liquidity...")
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      toast.dismiss(toastId)
 
-      toast.success("Liquidity removed successfully!")
-      setLiquidityAmount("")
+      if (receipt.status === "success") {
+        setLiquidityAmount("")
+        refreshPoolState()
+      }
     } catch (error) {
       console.error("Remove liquidity failed:", error)
-      toast.error("Failed to remove liquidity. Please try again.")
+      toast.error(getErrorMessage(error, "Failed to remove liquidity"))
     } finally {
       setIsLoading(false)
     }
@@ -313,8 +530,6 @@ export function LiquidityInterface() {
 
   const handleTokenAApprovalSuccess = () => {
     setIsTokenAApproved(true)
-    const tokenSymbol = SUPPORTED_TOKENS.find(t => t.address.toLowerCase() === tokenA?.toLowerCase())?.symbol || 'Token A'
-    toast.success(`${tokenSymbol} approved`)
     // Force a refetch of the allowance
     if (allowanceA !== undefined) {
       // This will trigger a refetch due to the refetchInterval
@@ -323,8 +538,6 @@ export function LiquidityInterface() {
 
   const handleTokenBApprovalSuccess = () => {
     setIsTokenBApproved(true)
-    const tokenSymbol = SUPPORTED_TOKENS.find(t => t.address.toLowerCase() === tokenB?.toLowerCase())?.symbol || 'Token B'
-    toast.success(`${tokenSymbol} approved`)
     // Force a refetch of the allowance
     if (allowanceB !== undefined) {
       // This will trigger a refetch due to the refetchInterval
@@ -347,74 +560,90 @@ export function LiquidityInterface() {
 
   return (
     <div className="space-y-6">
+      <div className="flex justify-end">
+        <TransactionSettingsPanel />
+      </div>
+
       {/* Token Pair Selection */}
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label className="text-muted-foreground">Token A</Label>
-          <Select value={tokenA} onValueChange={handleTokenAChange}>
-            <SelectTrigger className="bg-secondary border-border">
-              <SelectValue placeholder="Select Token A" />
-            </SelectTrigger>
-            <SelectContent>
-              {SUPPORTED_TOKENS.map((token) => (
-                <SelectItem key={token.address} value={token.address}>
-                  {token.symbol}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TokenSelect
+            value={tokenA}
+            onValueChange={handleTokenAChange}
+            placeholder="Select Token A"
+            className="bg-secondary border-border"
+          />
         </div>
 
         <div className="space-y-2">
           <Label className="text-muted-foreground">Token B</Label>
-          <Select value={tokenB} onValueChange={handleTokenBChange}>
-            <SelectTrigger className="bg-secondary border-border">
-              <SelectValue placeholder="Select Token B" />
-            </SelectTrigger>
-            <SelectContent>
-              {SUPPORTED_TOKENS.map((token) => (
-                <SelectItem key={token.address} value={token.address}>
-                  {token.symbol}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TokenSelect
+            value={tokenB}
+            onValueChange={handleTokenBChange}
+            placeholder="Select Token B"
+            className="bg-secondary border-border"
+          />
         </div>
       </div>
 
+      {/* Fee Tier Selection */}
+      <div className="space-y-2">
+        <FeeTierSelect value={fee} onValueChange={setFee} />
+        <p className="text-xs text-muted-foreground">
+          Each tier is a separate pool. Traders pay this fee to the pool on every swap through it.
+        </p>
+      </div>
+
       {/* Token Approvals */}
       {isConnected && tokenA && tokenB && (
         <div className="grid grid-cols-2 gap-4">
           {tokenA && (
             <div>
-              <TokenApproval 
-                tokenAddress={tokenA}
-                spenderAddress={SIMPLESWAP_ADDRESS}
-                amount={amountA ? parseEther(amountA) : 0n}
-                onSuccess={handleTokenAApprovalSuccess}
-                onError={(error) => console.error('Token A approval error:', error)}
-                isApproved={isTokenAApproved}
-                className="w-full"
-              />
-              <div className="text-sm text-muted-foreground mt-1">
-                {SUPPORTED_TOKENS.find(t => t.address === tokenA)?.symbol} Approval
-              </div>
+              {needsApproval.tokenA && permitDomainA ? (
+                <div className="text-sm text-muted-foreground">
+                  {tokenAInfo?.symbol} will be approved with a signature when you add liquidity
+                </div>
+              ) : (
+                <>
+                  <TokenApproval 
+                    tokenAddress={tokenA}
+                    spenderAddress={simpleSwapAddress}
+                    amount={parsedAmountA ?? 0n}
+                    onSuccess={handleTokenAApprovalSuccess}
+                    onError={(error) => toast.error(getErrorMessage(error, `Failed to approve ${tokenAInfo?.symbol ?? 'Token A'}`))}
+                    isApproved={isTokenAApproved}
+                    className="w-full"
+                  />
+                  <div className="text-sm text-muted-foreground mt-1">
+                    {tokenAInfo?.symbol} Approval
+                  </div>
+                </>
+              )}
             </div>
           )}
           {tokenB && (
             <div>
-              <TokenApproval 
-                tokenAddress={tokenB}
-                spenderAddress={SIMPLESWAP_ADDRESS}
-                amount={amountB ? parseEther(amountB) : 0n}
-                onSuccess={handleTokenBApprovalSuccess}
-                onError={(error) => console.error('Token B approval error:', error)}
-                isApproved={isTokenBApproved}
-                className="w-full"
-              />
-              <div className="text-sm text-muted-foreground mt-1">
-                {SUPPORTED_TOKENS.find(t => t.address === tokenB)?.symbol} Approval
-              </div>
+              {needsApproval.tokenB && permitDomainB ? (
+                <div className="text-sm text-muted-foreground">
+                  {tokenBInfo?.symbol} will be approved with a signature when you add liquidity
+                </div>
+              ) : (
+                <>
+                  <TokenApproval 
+                    tokenAddress={tokenB}
+                    spenderAddress={simpleSwapAddress}
+                    amount={parsedAmountB ?? 0n}
+                    onSuccess={handleTokenBApprovalSuccess}
+                    onError={(error) => toast.error(getErrorMessage(error, `Failed to approve ${tokenBInfo?.symbol ?? 'Token B'}`))}
+                    isApproved={isTokenBApproved}
+                    className="w-full"
+                  />
+                  <div className="text-sm text-muted-foreground mt-1">
+                    {tokenBInfo?.symbol} Approval
+                  </div>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -434,26 +663,34 @@ export function LiquidityInterface() {
               <div className="bg-background p-3 rounded-lg border border-border">
                 <span className="text-muted-foreground">Reserve A:</span>
                 <div className="font-semibold text-foreground text-lg">
-                  {reserves ? formatEther(reserves.reserveA) : '0'}
+                  {reserves ? formatTokenAmount(reserves.reserveA, tokenAInfo) : '0'}
                 </div>
               </div>
               <div className="bg-background p-3 rounded-lg border border-border">
                 <span className="text-muted-foreground">Reserve B:</span>
                 <div className="font-semibold text-foreground text-lg">
-                  {reserves ? formatEther(reserves.reserveB) : '0'}
+                  {reserves ? formatTokenAmount(reserves.reserveB, tokenBInfo) : '0'}
                 </div>
               </div>
             </div>
-            {userLiquidity && (
+            {userLiquidity !== undefined && userLiquidity > 0n && (
               <div className="mt-4 pt-4 border-t border-border">
                 <div className="bg-primary/10 p-3 rounded-lg border border-primary/20">
                   <span className="text-muted-foreground">Your Liquidity:</span>
                   <div className="font-semibold text-primary text-lg">
-                    {userLiquidity !== undefined ? formatEther(userLiquidity) : '0'}
+                    {formatTokenAmount(userLiquidity, liquidityUnit)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatShare(userLiquidity, reserves.totalLiquidity)} of pool
                   </div>
                 </div>
               </div>
             )}
+            {lpToken && liquidityUnit && (
+              <div className="mt-4 pt-4 border-t border-border">
+                <LpTokenInfo lpToken={lpToken} decimals={liquidityUnit.decimals} />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -500,8 +737,8 @@ export function LiquidityInterface() {
               />
               {tokenA && (
                 <div className="text-sm text-muted-foreground">
-                  Balance: {tokenBalanceA ? formatEther(tokenBalanceA) : '0.0'} {SUPPORTED_TOKENS.find(t => t.address === tokenA)?.symbol}
-                  {amountA && tokenBalanceA && parseEther(amountA) > tokenBalanceA && (
+                  Balance: {tokenBalanceA ? formatTokenAmount(tokenBalanceA, tokenAInfo) : '0.0'} {tokenAInfo?.symbol}
+                  {parsedAmountA && tokenBalanceA !== undefined && parsedAmountA > tokenBalanceA && (
                     <div className="text-red-500 text-xs mt-1">
                       ⚠️ Amount exceeds balance
                     </div>
@@ -531,8 +768,8 @@ export function LiquidityInterface() {
               />
               {tokenB && (
                 <div className="text-sm text-muted-foreground">
-                  Balance: {tokenBalanceB ? formatEther(tokenBalanceB) : '0.0'} {SUPPORTED_TOKENS.find(t => t.address === tokenB)?.symbol}
-                  {amountB && tokenBalanceB && parseEther(amountB) > tokenBalanceB && (
+                  Balance: {tokenBalanceB ? formatTokenAmount(tokenBalanceB, tokenBInfo) : '0.0'} {tokenBInfo?.symbol}
+                  {parsedAmountB && tokenBalanceB !== undefined && parsedAmountB > tokenBalanceB && (
                     <div className="text-red-500 text-xs mt-1">
                       ⚠️ Amount exceeds balance
                     </div>
@@ -542,39 +779,76 @@ export function LiquidityInterface() {
             </div>
           </div>
 
-          <Button
-            onClick={handleAddLiquidity}
-            disabled={
-              !isConnected || 
-              !tokenA || 
-              !tokenB || 
-              !amountA || 
-              !amountB || 
-              isLoading || 
-              needsApproval.tokenA || 
-              needsApproval.tokenB ||
-              Boolean(tokenBalanceA && amountA && parseEther(amountA) > tokenBalanceA) ||
-              Boolean(tokenBalanceB && amountB && parseEther(amountB) > tokenBalanceB)
-            }
-            className="w-full shadow-lg hover:shadow-primary/25 transition-all duration-200"
-            size="lg"
-            style={{
-              background: '#00ADB5',
-              border: '1px solid #00ADB5',
-              color: '#fff'
-            }}
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Adding Liquidity...
-              </>
-            ) : needsApproval.tokenA || needsApproval.tokenB ? (
-              "Approve Tokens First"
-            ) : (
-              "Add Liquidity"
-            )}
-          </Button>
+          {isNewPool && (
+            <div className="p-3 rounded-lg border border-border bg-secondary text-sm text-muted-foreground space-y-1">
+              <div className="font-medium text-foreground">You are creating this pool</div>
+              <div>
+                The amounts you deposit set its starting price. {formatTokenAmount(MINIMUM_LIQUIDITY, liquidityUnit)}{" "}
+                {LP_TOKEN_SYMBOL} of the first deposit is locked forever, so nobody can manipulate the value of a pool
+                share to take later deposits.
+              </div>
+              {initialLiquidity !== undefined &&
+                (initialLiquidity > 0n ? (
+                  <div>
+                    You will receive ≈ {formatTokenAmount(initialLiquidity, liquidityUnit)} {LP_TOKEN_SYMBOL}
+                  </div>
+                ) : (
+                  <div className="text-red-500">These amounts are too small to create the pool. Deposit more.</div>
+                ))}
+            </div>
+          )}
+
+          {!isConnected ? (
+            <Button
+              onClick={requestWallet}
+              disabled={isConnecting}
+              className="w-full"
+              size="lg"
+              style={{
+                background: '#00ADB5',
+                border: '1px solid #00ADB5',
+                color: '#fff'
+              }}
+            >
+              {isConnecting ? "Connecting..." : "Connect wallet to add liquidity"}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleAddLiquidity}
+              disabled={
+                !isConnected || 
+                isWrongNetwork ||
+                !tokenA || 
+                !tokenB || 
+                !amountA || 
+                !amountB || 
+                isLoading || 
+                approvalRequired.tokenA || 
+                approvalRequired.tokenB ||
+                (initialLiquidity !== undefined && initialLiquidity <= 0n) ||
+                Boolean(tokenBalanceA !== undefined && parsedAmountA && parsedAmountA > tokenBalanceA) ||
+                Boolean(tokenBalanceB !== undefined && parsedAmountB && parsedAmountB > tokenBalanceB)
+              }
+              className="w-full shadow-lg hover:shadow-primary/25 transition-all duration-200"
+              size="lg"
+              style={{
+                background: '#00ADB5',
+                border: '1px solid #00ADB5',
+                color: '#fff'
+              }}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Adding Liquidity...
+                </>
+              ) : approvalRequired.tokenA || approvalRequired.tokenB ? (
+                "Approve Tokens First"
+              ) : (
+                "Add Liquidity"
+              )}
+            </Button>
+          )}
         </TabsContent>
 
         <TabsContent value="remove" className="space-y-4">
@@ -598,31 +872,94 @@ export function LiquidityInterface() {
               }}
               className="bg-secondary border-border"
             />
-            {userLiquidity && <p className="text-sm text-muted-foreground">Available: {formatEther(userLiquidity)}</p>}
+            {userLiquidity !== undefined && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>Available: {formatTokenAmount(userLiquidity, liquidityUnit)}</span>
+                {userLiquidity > 0n && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLiquidityAmount(formatTokenAmount(userLiquidity, liquidityUnit))}
+                  >
+                    Max
+                  </Button>
+                )}
+              </div>
+            )}
+            {userLiquidity !== undefined && parsedLiquidityAmount !== undefined && parsedLiquidityAmount > userLiquidity && (
+              <div className="text-red-500 text-xs mt-1">
+                ⚠️ Amount exceeds your liquidity balance
+              </div>
+            )}
+            {removalPreview && (
+              <div className="text-sm text-muted-foreground">
+                {recipientInput.trim() ? "Recipient will receive" : "You will receive"} ≈ {formatTokenAmount(removalPreview[0], tokenAInfo, 6)} {tokenAInfo?.symbol} + {formatTokenAmount(removalPreview[1], tokenBInfo, 6)} {tokenBInfo?.symbol}
+              </div>
+            )}
           </div>
 
-          <Button
-            onClick={handleRemoveLiquidity}
-            disabled={
-              !isConnected || 
-              !tokenA || 
-              !tokenB || 
-              !liquidityAmount || 
-              isLoading ||
-              Boolean(userLiquidity && liquidityAmount && parseEther(liquidityAmount) > userLiquidity)
-            }
-            className="w-full bg-destructive hover:bg-destructive/90 text-destructive-foreground"
-            size="lg"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Removing Liquidity...
-              </>
-            ) : (
-              "Remove Liquidity"
-            )}
-          </Button>
+          <RecipientInput
+            value={recipientInput}
+            onChange={setRecipientInput}
+            recipient={recipient}
+            isOpen={isRecipientOpen}
+            onOpenChange={setIsRecipientOpen}
+          />
+
+          {isConnected && lpToken && needsLpApproval && (
+            <div>
+              <TokenApproval
+                tokenAddress={lpToken}
+                spenderAddress={simpleSwapAddress}
+                amount={parsedLiquidityAmount ?? 0n}
+                onError={(error) => toast.error(getErrorMessage(error, `Failed to approve ${LP_TOKEN_SYMBOL}`))}
+                className="w-full"
+              />
+              <div className="text-sm text-muted-foreground mt-1">
+                {LP_TOKEN_SYMBOL} Approval
+              </div>
+            </div>
+          )}
+
+          {!isConnected ? (
+            <Button
+              onClick={requestWallet}
+              disabled={isConnecting}
+              className="w-full"
+              size="lg"
+            >
+              {isConnecting ? "Connecting..." : "Connect wallet to remove liquidity"}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleRemoveLiquidity}
+              disabled={
+                !isConnected || 
+                isWrongNetwork ||
+                !tokenA || 
+                !tokenB || 
+                !liquidityAmount || 
+                isLoading ||
+                !recipientAddress ||
+                needsLpApproval ||
+                userLiquidity === undefined ||
+                Boolean(parsedLiquidityAmount && parsedLiquidityAmount > userLiquidity)
+              }
+              className="w-full bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+              size="lg"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Removing Liquidity...
+                </>
+              ) : needsLpApproval ? (
+                "Approve LP Tokens First"
+              ) : (
+                "Remove Liquidity"
+              )}
+            </Button>
+          )}
         </TabsContent>
       </Tabs>
     </div>
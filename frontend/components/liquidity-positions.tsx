@@ -0,0 +1,116 @@
+"use client"
+
+import { useAccount } from "wagmi"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Layers, RefreshCw } from "lucide-react"
+import { useLiquidityPositions } from "@/hooks/use-liquidity-positions"
+import { formatTokenAmount, lpUnit } from "@/lib/amounts"
+import { formatShare, type TokenPair } from "@/lib/positions"
+import { formatBps } from "@/lib/transaction-settings"
+
+interface LiquidityPositionsProps {
+  onManage?: (pair: TokenPair) => void
+}
+
+export function LiquidityPositions({ onManage }: LiquidityPositionsProps) {
+  const { isConnected } = useAccount()
+  const { positions, isLoading, error, refetch } = useLiquidityPositions()
+
+  if (!isConnected) {
+    return (
+      <Card className="bg-card border border-border">
+        <CardContent className="pt-6">
+          <div className="text-center text-muted-foreground">
+            <Layers className="w-8 h-8 mx-auto mb-2" />
+            <p>Connect your wallet to view your liquidity positions</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {positions.length} {positions.length === 1 ? "position" : "positions"}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isLoading}>
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">⚠️ Could not load your positions. Please try again.</p>
+        </div>
+      )}
+
+      {!isLoading && !error && positions.length === 0 && (
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <div className="text-center text-muted-foreground">
+              <p>You don't have liquidity in any pool yet</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {positions.map((position) => {
+        const unit = lpUnit(position.tokenA, position.tokenB)
+        return (
+          <Card
+            key={`${position.tokenA.address}-${position.tokenB.address}-${position.fee}`}
+            className="bg-card border border-border"
+          >
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-foreground">
+                <span className="flex items-center gap-2">
+                  {position.tokenA.symbol}/{position.tokenB.symbol}
+                  <Badge variant="secondary">{formatBps(position.fee)}</Badge>
+                </span>
+                <Badge
+                  variant="outline"
+                  style={{
+                    border: '1px solid #00ADB5',
+                    color: '#00ADB5',
+                    background: 'rgba(0, 173, 181, 0.10)'
+                  }}
+                >
+                  {formatShare(position.liquidity, position.totalLiquidity)} of pool
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">LP balance</span>
+                  <div className="font-semibold text-foreground">{formatTokenAmount(position.liquidity, unit, 6)}</div>
+                </div>
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">Pooled {position.tokenA.symbol}</span>
+                  <div className="font-semibold text-foreground">{formatTokenAmount(position.amountA, position.tokenA, 6)}</div>
+                </div>
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">Pooled {position.tokenB.symbol}</span>
+                  <div className="font-semibold text-foreground">{formatTokenAmount(position.amountB, position.tokenB, 6)}</div>
+                </div>
+              </div>
+              {onManage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => onManage({ tokenA: position.tokenA, tokenB: position.tokenB, fee: position.fee })}
+                >
+                  Manage
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { ExternalLink, Wallet } from "lucide-react"
+import type { Address } from "viem"
+import { useWatchAsset } from "wagmi"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { LP_TOKEN_SYMBOL } from "@/lib/constants"
+import { getExplorerUrl } from "@/lib/chains"
+import { getErrorMessage } from "@/lib/errors"
+
+interface LpTokenInfoProps {
+  lpToken: Address
+  decimals: number
+}
+
+/**
+ * Address of a pool's ERC-20 LP token, with a button that asks the wallet to
+ * track it (wallet_watchAsset) so the position shows up next to other tokens.
+ */
+export function LpTokenInfo({ lpToken, decimals }: LpTokenInfoProps) {
+  const chainConfig = useChainConfig()
+  const { watchAssetAsync, isPending } = useWatchAsset()
+  const explorerUrl = getExplorerUrl(chainConfig, "address", lpToken)
+
+  const handleAddToWallet = async () => {
+    try {
+      const added = await watchAssetAsync({
+        type: "ERC20",
+        options: { address: lpToken, symbol: LP_TOKEN_SYMBOL, decimals },
+      })
+      if (added) toast.success(`${LP_TOKEN_SYMBOL} added to your wallet`)
+    } catch (error) {
+      console.error("Error adding LP token to wallet:", error)
+      toast.error(getErrorMessage(error, "Could not add the LP token to your wallet"))
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 text-sm">
+      <div className="min-w-0">
+        <span className="text-muted-foreground">LP token ({LP_TOKEN_SYMBOL}):</span>
+        <div className="flex items-center gap-1 font-mono text-xs text-foreground">
+          <span className="truncate">{lpToken}</span>
+          {explorerUrl && (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-muted-foreground hover:text-foreground shrink-0"
+            >
+              <ExternalLink className="w-3 h-3" />
+              <span className="sr-only">View on explorer</span>
+            </a>
+          )}
+        </div>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleAddToWallet} disabled={isPending} className="shrink-0">
+        <Wallet className="w-4 h-4 mr-1" />
+        Add to wallet
+      </Button>
+    </div>
+  )
+}
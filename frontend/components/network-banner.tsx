@@ -0,0 +1,52 @@
+"use client"
+
+import { toast } from "sonner"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { CHAIN_CONFIGS, HAS_DEPLOYMENTS } from "@/lib/chains"
+import { getErrorMessage } from "@/lib/errors"
+
+/**
+ * Shown while the wallet is on a network SimpleSwap isn't deployed to.
+ * Offers a one-click switch to each supported network.
+ */
+export function NetworkBanner() {
+  const { chainName, isWrongNetwork, isSwitching, switchNetwork } = useNetworkStatus()
+
+  // Without any deployment the page itself explains what's missing
+  if (!isWrongNetwork || !HAS_DEPLOYMENTS) return null
+
+  const handleSwitch = async (chainId: number) => {
+    try {
+      await switchNetwork(chainId)
+    } catch (error) {
+      console.error("Network switch failed:", error)
+      toast.error(getErrorMessage(error, "Could not switch network"))
+    }
+  }
+
+  return (
+    <div className="border-t border-red-200 bg-red-50 px-4 py-3">
+      <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-red-800">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        <span>
+          Your wallet is on <strong>{chainName}</strong>, where SimpleSwap isn&apos;t available. Switch networks to
+          trade or manage liquidity.
+        </span>
+        {Object.values(CHAIN_CONFIGS).map(({ chain }) => (
+          <Button
+            key={chain.id}
+            size="sm"
+            variant="outline"
+            onClick={() => handleSwitch(chain.id)}
+            disabled={isSwitching}
+            className="border-red-300 text-red-800 hover:bg-red-100"
+          >
+            {isSwitching ? <Loader2 className="w-4 h-4 animate-spin" /> : `Switch to ${chain.name}`}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import type { Address } from "viem"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Database, RefreshCw } from "lucide-react"
+import { usePools } from "@/hooks/use-pools"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { formatRatio, formatTokenAmount, lpUnit } from "@/lib/amounts"
+import type { TokenPair } from "@/lib/positions"
+import { formatBps } from "@/lib/transaction-settings"
+import { findToken } from "@/lib/token-registry"
+
+const POOLS_PER_PAGE = 10
+
+interface PoolsExplorerProps {
+  onAddLiquidity?: (pair: TokenPair) => void
+}
+
+function shortAddress(address: Address): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
+
+export function PoolsExplorer({ onAddLiquidity }: PoolsExplorerProps) {
+  const { pools, isLoading, error, refetch } = usePools()
+  const { tokens } = useTokenRegistry()
+  const [page, setPage] = useState(0)
+
+  const pageCount = Math.max(1, Math.ceil(pools.length / POOLS_PER_PAGE))
+  const visiblePools = useMemo(
+    () => pools.slice(page * POOLS_PER_PAGE, (page + 1) * POOLS_PER_PAGE),
+    [pools, page]
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {pools.length} {pools.length === 1 ? "pool" : "pools"}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isLoading}>
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">⚠️ Could not load the pool registry. Please try again.</p>
+        </div>
+      )}
+
+      {!isLoading && !error && pools.length === 0 && (
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6">
+            <div className="text-center text-muted-foreground">
+              <Database className="w-8 h-8 mx-auto mb-2" />
+              <p>No pools have been created yet</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {visiblePools.map((pool) => {
+        const token0 = findToken(tokens, pool.tokenA)
+        const token1 = findToken(tokens, pool.tokenB)
+        const symbol0 = token0?.symbol ?? shortAddress(pool.tokenA)
+        const symbol1 = token1?.symbol ?? shortAddress(pool.tokenB)
+        const isEmpty = pool.reserveA === 0n || pool.reserveB === 0n
+
+        return (
+          <Card key={pool.index} className="bg-card border border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-foreground">
+                <span className="flex items-center gap-2">
+                  {symbol0}/{symbol1}
+                  <Badge variant="secondary">{formatBps(pool.fee)}</Badge>
+                </span>
+                <Badge variant="outline" className="text-muted-foreground">
+                  {isEmpty ? "Empty" : `#${pool.index}`}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">{symbol0} reserve</span>
+                  <div className="font-semibold text-foreground">
+                    {token0 ? formatTokenAmount(pool.reserveA, token0, 6) : pool.reserveA.toString()}
+                  </div>
+                </div>
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">{symbol1} reserve</span>
+                  <div className="font-semibold text-foreground">
+                    {token1 ? formatTokenAmount(pool.reserveB, token1, 6) : pool.reserveB.toString()}
+                  </div>
+                </div>
+                <div className="bg-background p-3 rounded-lg border border-border">
+                  <span className="text-muted-foreground">LP supply</span>
+                  <div className="font-semibold text-foreground">
+                    {token0 && token1
+                      ? formatTokenAmount(pool.totalLiquidity, lpUnit(token0, token1), 6)
+                      : pool.totalLiquidity.toString()}
+                  </div>
+                </div>
+              </div>
+              {token0 && token1 && !isEmpty && (
+                <div className="text-sm text-muted-foreground">
+                  1 {symbol0} = {formatRatio(pool.reserveB, token1, pool.reserveA, token0)} {symbol1}
+                </div>
+              )}
+              {onAddLiquidity && token0 && token1 && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => onAddLiquidity({ tokenA: token0, tokenB: token1, fee: pool.fee })}
+                >
+                  Add liquidity
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,40 +1,65 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
-import { useReadContract } from "wagmi"
-import { formatEther, type Address } from "viem"
-import { SIMPLESWAP_ABI, SIMPLESWAP_ADDRESS, SUPPORTED_TOKENS } from "@/lib/constants"
+import { useAccount, useReadContract } from "wagmi"
+import { zeroAddress, type Address } from "viem"
+import { FeeTierSelect } from "@/components/fee-tier-select"
+import { TokenSelect } from "@/components/token-select"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { DEFAULT_FEE_TIER, SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { findToken } from "@/lib/token-registry"
+import { formatTokenAmount, lpUnit, oneToken } from "@/lib/amounts"
+import { formatShare } from "@/lib/positions"
+import { formatBps } from "@/lib/transaction-settings"
 import { TrendingUp, TrendingDown, Minus } from "lucide-react"
 
 export function PriceDisplay() {
   const [tokenA, setTokenA] = useState("")
   const [tokenB, setTokenB] = useState("")
+  const [fee, setFee] = useState(DEFAULT_FEE_TIER)
 
-  // Get pool reserves
-  const { data: reserves } = useReadContract({
-    address: SIMPLESWAP_ADDRESS,
+  const { tokens } = useTokenRegistry()
+
+  const tokenAInfo = useMemo(() => findToken(tokens, tokenA), [tokens, tokenA])
+  const tokenBInfo = useMemo(() => findToken(tokens, tokenB), [tokens, tokenB])
+
+  const { address } = useAccount()
+  const { chain, simpleSwapAddress } = useChainConfig()
+
+  // Get the pool's reserves, total LP supply and the user's LP balance in the selected tier
+  const { data: poolInfo } = useReadContract({
+    address: simpleSwapAddress,
     abi: SIMPLESWAP_ABI,
-    functionName: "getReserves",
-    args: tokenA && tokenB ? [tokenA as Address, tokenB as Address] : undefined,
+    chainId: chain.id,
+    functionName: "getPoolInfo",
+    args: tokenA && tokenB ? [tokenA as Address, tokenB as Address, fee, address ?? zeroAddress] : undefined,
     query: {
       enabled: !!(tokenA && tokenB),
     },
   })
 
-  // Prepare arguments for getAmountOut (always 1 unit, 18 decimales)
-  const parsedAmountIn = reserves && tokenA && tokenB ? BigInt(1e18) : undefined;
+  // Only treat the pool as existing once both reserves are non-zero
+  const reserves = poolInfo && poolInfo[0] > 0n && poolInfo[1] > 0n
+    ? [poolInfo[0], poolInfo[1]] as const
+    : undefined
+  const totalLiquidity = poolInfo?.[2]
+  const userLiquidity = address ? poolInfo?.[3] : undefined
+
+  // Prepare arguments for getAmountOut (always 1 whole base token, in its own decimals)
+  const parsedAmountIn = reserves && tokenAInfo && tokenB ? oneToken(tokenAInfo) : undefined;
   const getAmountOutArgs = tokenA && tokenB && reserves && parsedAmountIn && parsedAmountIn > 0n
-    ? [parsedAmountIn, reserves[0], reserves[1]] as const
+    ? [parsedAmountIn, reserves[0], reserves[1], fee] as const
     : undefined;
 
   // Get expected output amount for 1 unit
   const { data: expectedOutput } = useReadContract({
-    address: SIMPLESWAP_ADDRESS,
+    address: simpleSwapAddress,
     abi: SIMPLESWAP_ABI,
+    chainId: chain.id,
     functionName: "getAmountOut",
     args: getAmountOutArgs,
     query: {
@@ -43,12 +68,7 @@ export function PriceDisplay() {
   })
 
   const getTokenSymbol = (address: string) => {
-    return SUPPORTED_TOKENS.find((token) => token.address === address)?.symbol || "Unknown"
-  }
-
-  const formatPrice = (priceValue: bigint) => {
-    const formatted = formatEther(priceValue)
-    return Number.parseFloat(formatted).toFixed(6)
+    return findToken(tokens, address)?.symbol || "Unknown"
   }
 
   return (
@@ -57,37 +77,27 @@ export function PriceDisplay() {
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label className="text-muted-foreground">Base Token</Label>
-          <Select value={tokenA} onValueChange={setTokenA}>
-            <SelectTrigger className="bg-secondary border-border">
-              <SelectValue placeholder="Select Base Token" />
-            </SelectTrigger>
-            <SelectContent>
-              {SUPPORTED_TOKENS.map((token) => (
-                <SelectItem key={token.address} value={token.address}>
-                  {token.symbol}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TokenSelect
+            value={tokenA}
+            onValueChange={setTokenA}
+            placeholder="Select Base Token"
+            className="bg-secondary border-border"
+          />
         </div>
 
         <div className="space-y-2">
           <Label className="text-muted-foreground">Quote Token</Label>
-          <Select value={tokenB} onValueChange={setTokenB}>
-            <SelectTrigger className="bg-secondary border-border">
-              <SelectValue placeholder="Select Quote Token" />
-            </SelectTrigger>
-            <SelectContent>
-              {SUPPORTED_TOKENS.map((token) => (
-                <SelectItem key={token.address} value={token.address}>
-                  {token.symbol}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TokenSelect
+            value={tokenB}
+            onValueChange={setTokenB}
+            placeholder="Select Quote Token"
+            className="bg-secondary border-border"
+          />
         </div>
       </div>
 
+      <FeeTierSelect value={fee} onValueChange={setFee} />
+
       {/* Price Information */}
       {tokenA && tokenB && (
         <div className="grid gap-4">
@@ -112,10 +122,10 @@ export function PriceDisplay() {
             <CardContent>
               {expectedOutput !== undefined ? (
                 <div className="text-center">
-                  <div className="text-4xl font-bold mb-2" style={{ color: '#00ADB5' }}>{Number(formatEther(expectedOutput)).toLocaleString()}</div>
+                  <div className="text-4xl font-bold mb-2" style={{ color: '#00ADB5' }}>{Number(formatTokenAmount(expectedOutput, tokenBInfo)).toLocaleString()}</div>
                   <span className="text-lg text-muted-foreground">{getTokenSymbol(tokenB)}</span>
                   <div className="text-sm text-muted-foreground mt-2">
-                    This is the actual output you would receive for swapping 1 {getTokenSymbol(tokenA)} to {getTokenSymbol(tokenB)}, including the 0.3% fee.
+                    This is the actual output you would receive for swapping 1 {getTokenSymbol(tokenA)} to {getTokenSymbol(tokenB)}, including the {formatBps(fee)} fee.
                   </div>
                 </div>
               ) : (
@@ -128,7 +138,7 @@ export function PriceDisplay() {
           </Card>
 
           {/* Pool Reserves */}
-          {reserves && Array.isArray(reserves) && reserves.length >= 2 ? (
+          {reserves ? (
             <Card className="bg-card border border-border">
               <CardHeader>
                 <CardTitle className="text-foreground">Pool Reserves</CardTitle>
@@ -137,17 +147,31 @@ export function PriceDisplay() {
                 <div className="grid grid-cols-2 gap-4">
                   <div className="text-center bg-background p-4 rounded-lg border border-border">
                     <div className="text-2xl font-semibold" style={{ color: '#00ADB5' }}>
-                      {Number.parseFloat(formatEther(reserves[0] as bigint)).toLocaleString()}
+                      {Number.parseFloat(formatTokenAmount(reserves[0], tokenAInfo)).toLocaleString()}
                     </div>
                     <div className="text-sm text-muted-foreground">{getTokenSymbol(tokenA)}</div>
                   </div>
                   <div className="text-center bg-background p-4 rounded-lg border border-border">
                     <div className="text-2xl font-semibold" style={{ color: '#00ADB5' }}>
-                      {Number.parseFloat(formatEther(reserves[1] as bigint)).toLocaleString()}
+                      {Number.parseFloat(formatTokenAmount(reserves[1], tokenBInfo)).toLocaleString()}
                     </div>
                     <div className="text-sm text-muted-foreground">{getTokenSymbol(tokenB)}</div>
                   </div>
                 </div>
+                {totalLiquidity !== undefined && tokenAInfo && tokenBInfo && (
+                  <div className="mt-4 pt-4 border-t border-border space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Total LP supply:</span>
+                      <span className="font-medium">{formatTokenAmount(totalLiquidity, lpUnit(tokenAInfo, tokenBInfo), 6)}</span>
+                    </div>
+                    {userLiquidity !== undefined && userLiquidity > 0n && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Your share:</span>
+                        <span className="font-medium">{formatShare(userLiquidity, totalLiquidity)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           ) : null}
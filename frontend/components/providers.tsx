@@ -1,45 +1,73 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { createConfig, http, WagmiProvider } from 'wagmi'
-import { sepolia } from 'wagmi/chains'
-import { metaMask } from 'wagmi/connectors'
+import { createConfig, fallback, http, WagmiProvider, type Transport } from 'wagmi'
+import { coinbaseWallet, injected, metaMask, walletConnect } from 'wagmi/connectors'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { usePathname, useSearchParams } from 'next/navigation'
 import { Toaster } from 'sonner'
+import { getChainConfig, SUPPORTED_CHAINS } from '@/lib/chains'
+import { TransactionWatcher } from '@/components/transaction-watcher'
 
-// Environment variables with fallbacks
-const INFURA_API_KEY = process.env.NEXT_PUBLIC_INFURA_API_KEY
-
-if (!INFURA_API_KEY) {
+if (!process.env.NEXT_PUBLIC_INFURA_API_KEY) {
   console.warn('NEXT_PUBLIC_INFURA_API_KEY is not set. Some features may not work correctly.')
 }
 
-// Configure the RPC URL
-const rpcUrl = INFURA_API_KEY 
-  ? `https://sepolia.infura.io/v3/${INFURA_API_KEY}`
-  : 'https://rpc.sepolia.org';
+// One transport per supported chain, trying its RPC URLs in order
+const transports = Object.fromEntries(
+  SUPPORTED_CHAINS.map((chain) => getChainConfig(chain.id)).map((chainConfig) => [
+    chainConfig.chain.id,
+    fallback(
+      chainConfig.rpcUrls.map((url) =>
+        http(url, {
+          // Add retry logic for failed requests
+          retryCount: 3,
+          retryDelay: 1000,
+        })
+      )
+    ),
+  ])
+) as Record<number, Transport>
+
+const WALLETCONNECT_PROJECT_ID = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID
+
+const appUrl = typeof window !== 'undefined' ? window.location.origin : ''
 
 // Set up wagmi config
 export const config = createConfig({
-  chains: [sepolia],
+  chains: SUPPORTED_CHAINS,
+  // Browser extensions are also discovered through EIP-6963 and added as
+  // their own injected connectors next to these
+  multiInjectedProviderDiscovery: true,
   connectors: [
+    injected(),
     metaMask({
       dappMetadata: {
         name: 'SimpleSwap',
-        url: typeof window !== 'undefined' ? window.location.origin : ''
+        url: appUrl
       },
       // Disable analytics
       enableAnalytics: false
-    })
-  ],
-  transports: {
-    [sepolia.id]: http(rpcUrl, {
-      // Add retry logic for failed requests
-      retryCount: 3,
-      retryDelay: 1000,
     }),
-  },
+    coinbaseWallet({
+      appName: 'SimpleSwap',
+    }),
+    // WalletConnect needs a project ID from cloud.reown.com
+    ...(WALLETCONNECT_PROJECT_ID
+      ? [
+          walletConnect({
+            projectId: WALLETCONNECT_PROJECT_ID,
+            metadata: {
+              name: 'SimpleSwap',
+              description: 'Decentralized Exchange',
+              url: appUrl,
+              icons: [],
+            },
+          }),
+        ]
+      : []),
+  ],
+  transports,
   ssr: true, // Enable server-side rendering
   batch: { multicall: true },
   // Add polling for account/chain changes
@@ -70,25 +98,11 @@ export function RouteChangeHandler({ children }: { children: React.ReactNode })
   return <>{children}</>
 }
 
-// Check if the code is running on the client side
-const isClient = typeof window !== 'undefined'
-
-// Simple MetaMask detection
-function isMetaMaskInstalled() {
-  if (!isClient) return false
-  return Boolean(window.ethereum?.isMetaMask)
-}
-
 export function Providers({ children }: { children: React.ReactNode }) {
   const [mounted, setMounted] = useState(false)
-  const [showInstallMetaMask, setShowInstallMetaMask] = useState(false)
-  
-  // Check for MetaMask on mount
+
   useEffect(() => {
     setMounted(true)
-    if (isClient && !isMetaMaskInstalled()) {
-      setShowInstallMetaMask(true)
-    }
   }, [])
   
   // Don't render anything until we're on the client
@@ -99,27 +113,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
-        {showInstallMetaMask ? (
-          <div className="fixed inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4">
-            <div className="bg-card p-6 rounded-lg shadow-lg max-w-md w-full">
-              <h2 className="text-xl font-bold mb-4">MetaMask Required</h2>
-              <p className="mb-6">Please install MetaMask to use this application.</p>
-              <a
-                href="https://metamask.io/download/"
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center justify-center rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
-              >
-                Install MetaMask
-              </a>
-            </div>
-          </div>
-        ) : (
-          <RouteChangeHandler>
-            {children}
-            <Toaster position="top-right" richColors />
-          </RouteChangeHandler>
-        )}
+        {/* No wallet is needed to browse: reads go through public RPCs and a
+            wallet is only requested when the user sends a transaction */}
+        <RouteChangeHandler>
+          {children}
+          <Toaster position="top-right" richColors />
+          <TransactionWatcher />
+        </RouteChangeHandler>
       </QueryClientProvider>
     </WagmiProvider>
   )
@@ -0,0 +1,78 @@
+"use client"
+
+import { AlertTriangle, Loader2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { RecipientState } from "@/hooks/use-recipient"
+
+interface RecipientInputProps {
+  value: string
+  onChange: (value: string) => void
+  recipient: RecipientState
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Optional "send to" field. Closed, the connected account receives the
+ * tokens; open, it takes an address or ENS name resolved by useRecipient.
+ */
+export function RecipientInput({ value, onChange, recipient, isOpen, onOpenChange }: RecipientInputProps) {
+  if (!isOpen) {
+    return (
+      <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => onOpenChange(true)}>
+        + Send to a different address
+      </Button>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="recipient" className="text-muted-foreground">Recipient</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-auto p-1"
+          onClick={() => {
+            onChange("")
+            onOpenChange(false)
+          }}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <Input
+        id="recipient"
+        placeholder="0x... or name.eth"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="bg-secondary border-border font-mono"
+      />
+      {recipient.isResolving && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Resolving...
+        </p>
+      )}
+      {recipient.error && <p className="text-xs text-red-500">{recipient.error}</p>}
+      {recipient.address && recipient.ensName && (
+        <p className="text-xs text-muted-foreground font-mono break-all">{recipient.address}</p>
+      )}
+      {recipient.isSimpleSwap ? (
+        <p className="flex items-start gap-1 text-xs text-red-500">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          This is the SimpleSwap contract. Tokens sent to it can't be recovered.
+        </p>
+      ) : (
+        recipient.isContract && (
+          <p className="flex items-start gap-1 text-xs text-yellow-600">
+            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+            This address is a contract. Make sure it can handle the tokens you send.
+          </p>
+        )
+      )}
+    </div>
+  )
+}
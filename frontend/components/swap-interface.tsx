@@ -1,19 +1,43 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { useAccount, usePublicClient, useWalletClient, useReadContract } from "wagmi"
-import { getAddress, parseEther, formatEther, type Address } from "viem"
+import { useAccount, useWalletClient, useReadContract } from "wagmi"
+import { type Address } from "viem"
 import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
 import { ArrowDown, Loader2 } from "lucide-react"
-import { SIMPLESWAP_ABI, SIMPLESWAP_ADDRESS, SUPPORTED_TOKENS, type TokenInfo } from "@/lib/constants"
+import { SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { useReadClient } from "@/hooks/use-read-client"
+import { usePermitDomain } from "@/hooks/use-permit-domain"
+import { useRecipient } from "@/hooks/use-recipient"
+import { useRequireWallet } from "@/hooks/use-require-wallet"
 import { TokenApproval } from "@/components/token-approval"
-
-
+import { RecipientInput } from "@/components/recipient-input"
+import { SwapReviewDialog, type SwapReview } from "@/components/swap-review-dialog"
+import { TokenSelect } from "@/components/token-select"
+import { TransactionSettingsPanel } from "@/components/transaction-settings"
+import { formatRatio, formatTokenAmount, parseTokenAmount } from "@/lib/amounts"
+import { applyMaxSlippage, applySlippage, formatBps, getDeadline } from "@/lib/transaction-settings"
+import { findBestRouteExactIn, findBestRouteExactOut, findPaths, formatRouteFeeTiers, getMidPrice, getPriceImpactBps } from "@/lib/router"
+import { MAX_PRICE_IMPACT_BPS, PRICE_IMPACT_TIER_CLASSES, getPriceImpactTier, isPriceImpactBlocked } from "@/lib/price-impact"
+import { findToken } from "@/lib/token-registry"
+import { signPermit } from "@/lib/permit"
+import { getErrorMessage } from "@/lib/errors"
+import { useTransactionSettings } from "@/hooks/use-transaction-settings"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { usePools } from "@/hooks/use-pools"
+import { addTransaction } from "@/hooks/use-transactions"
+import { toTransactionToken } from "@/lib/transactions"
+
+
+
+// Which side of the trade the user typed: the exact amount sold or the exact amount bought
+type SwapMode = "exactIn" | "exactOut";
 
 interface SwapInterfaceProps {
   onNavigateToLiquidity: () => void;
@@ -22,17 +46,26 @@ interface SwapInterfaceProps {
 export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
   // ALL HOOKS MUST BE CALLED FIRST - NO EARLY RETURNS ABOVE THIS LINE
   const { data: walletClient } = useWalletClient();
-  const publicClient = usePublicClient();
+  const publicClient = useReadClient();
   const { isConnected, address } = useAccount();
+  const { simpleSwapAddress } = useChainConfig();
+  const { isWrongNetwork } = useNetworkStatus();
+  const { isConnecting, requestWallet } = useRequireWallet();
+  const { settings, slippageBps } = useTransactionSettings();
+  const { pools, isLoading: isPoolsLoading, error: poolsError, refetch: refetchPools } = usePools();
   
   // State variables
   const [tokenIn, setTokenIn] = useState("");
   const [tokenOut, setTokenOut] = useState("");
   const [amountIn, setAmountIn] = useState("");
+  const [amountOut, setAmountOut] = useState("");
+  const [swapMode, setSwapMode] = useState<SwapMode>("exactIn");
   const [isApproved, setIsApproved] = useState(false);
   const [needsApproval, setNeedsApproval] = useState(false);
-  const [poolExists, setPoolExists] = useState<boolean | null>(null);
   const [isSwapping, setIsSwapping] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isRecipientOpen, setIsRecipientOpen] = useState(false);
+  const [recipientInput, setRecipientInput] = useState("");
   const [isClientReady, setIsClientReady] = useState(false);
   const [showPoolWarning, setShowPoolWarning] = useState(false);
   const [showError, setShowError] = useState(false);
@@ -45,19 +78,22 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
   }, []);
 
   // Constants
-  const tokens = useMemo(() => SUPPORTED_TOKENS, []);
+  const { tokens } = useTokenRegistry();
+  const tokenInInfo = useMemo(() => findToken(tokens, tokenIn), [tokens, tokenIn]);
+  const tokenOutInfo = useMemo(() => findToken(tokens, tokenOut), [tokens, tokenOut]);
 
-  // Parse amount safely
+  // Parse the typed amount safely using the decimals of the side it belongs to
   const parsedAmountIn = useMemo(() => {
-    try {
-      return amountIn && !isNaN(Number(amountIn)) && Number(amountIn) > 0 
-        ? parseEther(amountIn.toString()) 
-        : undefined;
-    } catch (error) {
-      console.error('Error parsing amount:', error);
-      return undefined;
-    }
-  }, [amountIn]);
+    if (swapMode !== "exactIn") return undefined;
+    const parsed = parseTokenAmount(amountIn, tokenInInfo);
+    return parsed !== undefined && parsed > 0n ? parsed : undefined;
+  }, [swapMode, amountIn, tokenInInfo]);
+
+  const parsedAmountOut = useMemo(() => {
+    if (swapMode !== "exactOut") return undefined;
+    const parsed = parseTokenAmount(amountOut, tokenOutInfo);
+    return parsed !== undefined && parsed > 0n ? parsed : undefined;
+  }, [swapMode, amountOut, tokenOutInfo]);
 
   // Token balance with auto-refresh on block changes
   const [balanceRefreshKey, setBalanceRefreshKey] = useState(0);
@@ -74,13 +110,14 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
     const unwatch = publicClient.watchBlockNumber({
       onBlockNumber: () => {
         refreshBalances();
+        refetchPools();
       },
     });
 
     return () => {
       unwatch();
     };
-  }, [publicClient, address, refreshBalances]);
+  }, [publicClient, address, refreshBalances, refetchPools]);
 
   // Token balance query with auto-refresh
   const { 
@@ -109,90 +146,93 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
     }
   }, [balanceRefreshKey, tokenIn, address, refetchBalance]);
 
-  // Function to check if pool exists
-  const checkPoolExists = useCallback(async (tokenA: string, tokenB: string): Promise<boolean> => {
-    if (!tokenA || !tokenB || tokenA === tokenB || !publicClient) return false;
-    
-    try {
-      const reserves = await publicClient.readContract({
-        address: SIMPLESWAP_ADDRESS,
-        abi: SIMPLESWAP_ABI,
-        functionName: "getReserves",
-        args: [tokenA as Address, tokenB as Address],
-      }) as [bigint, bigint];
-      
-      return reserves[0] > 0n && reserves[1] > 0n;
-    } catch (error) {
-      console.debug('Pool check failed (may not exist yet):', error);
-      return false;
+  // Find the best route through the known pools for the typed amount
+  const route = useMemo(() => {
+    if (!tokenIn || !tokenOut || tokenIn === tokenOut) return undefined;
+    if (parsedAmountIn) {
+      return findBestRouteExactIn(pools, parsedAmountIn, tokenIn as Address, tokenOut as Address);
     }
-  }, [publicClient]);
-
-  // Get reserves for the token pair
-  const {
-    data: reservesData,
-    error: reservesError,
-    isError: isReservesError,
-    isLoading: isReservesLoading
-  } = useReadContract({
-    address: SIMPLESWAP_ADDRESS,
-    abi: SIMPLESWAP_ABI,
-    functionName: "getReserves",
-    args: tokenIn && tokenOut ? [tokenIn as Address, tokenOut as Address] : undefined,
-    query: {
-      enabled: !!(tokenIn && tokenOut && parsedAmountIn !== undefined && parsedAmountIn > 0n && publicClient),
-      retry: 2,
-      retryDelay: 1000,
-    },
-  });
-
-  const reserves = useMemo(() => {
-    if (!reservesData) return undefined;
-    return reservesData as [bigint, bigint];
-  }, [reservesData]);
-
-  // Prepare arguments for getAmountOut
-  const getAmountOutArgs = useMemo(() => {
-    if (!parsedAmountIn || !tokenIn || !tokenOut || !reserves) return undefined;
-    return [parsedAmountIn, reserves[0], reserves[1]] as const;
-  }, [parsedAmountIn, tokenIn, tokenOut, reserves]);
-
-  // Get expected output amount
-  const {
-    data: expectedOutput,
-    error: expectedOutputError,
-    isError: isExpectedOutputError,
-    isLoading: isExpectedOutputLoading
-  } = useReadContract({
-    address: SIMPLESWAP_ADDRESS,
-    abi: SIMPLESWAP_ABI,
-    functionName: "getAmountOut",
-    args: getAmountOutArgs,
-    query: {
-      enabled: !!getAmountOutArgs,
-      retry: 3,
-      retryDelay: 1000,
-    },
-  });
-
-  // Update pool existence when tokens change
-  useEffect(() => {
-    const updatePoolExists = async () => {
-      if (tokenIn && tokenOut && tokenIn !== tokenOut) {
-        setPoolExists(null);
-        const exists = await checkPoolExists(tokenIn, tokenOut);
-        setPoolExists(exists);
-      } else {
-        setPoolExists(null);
-      }
+    if (parsedAmountOut) {
+      return findBestRouteExactOut(pools, parsedAmountOut, tokenIn as Address, tokenOut as Address);
+    }
+    return undefined;
+  }, [pools, tokenIn, tokenOut, parsedAmountIn, parsedAmountOut]);
+
+  // Whether any chain of pools connects the two tokens; null while unknown
+  const routeExists = useMemo(() => {
+    if (!tokenIn || !tokenOut || tokenIn === tokenOut) return null;
+    if (isPoolsLoading && pools.length === 0) return null;
+    return findPaths(pools, tokenIn as Address, tokenOut as Address).length > 0;
+  }, [pools, isPoolsLoading, tokenIn, tokenOut]);
+
+  const expectedInput = route?.amounts[0];
+  const expectedOutput = route?.amounts[route.amounts.length - 1];
+  // A route exists but none of its pools can fill the requested amount
+  const isQuoteError = !!(routeExists && (parsedAmountIn || parsedAmountOut) && !route);
+
+  // Mid price along the route, the reference for price impact
+  const midPrice = useMemo(() => {
+    if (!route) return undefined;
+    return getMidPrice(pools, route.path, route.fees);
+  }, [pools, route]);
+
+  const priceImpactBps = useMemo(() => {
+    if (!route) return undefined;
+    return getPriceImpactBps(pools, route);
+  }, [pools, route]);
+  const isImpactBlocked = priceImpactBps !== undefined && isPriceImpactBlocked(priceImpactBps);
+
+  const routeSymbols = useMemo(() => {
+    return route?.path.map((token) => findToken(tokens, token)?.symbol ?? token.slice(0, 6));
+  }, [route, tokens]);
+
+  // Minimum output accepted on-chain, derived from the quote and the slippage tolerance
+  const minimumOutput = useMemo(() => {
+    if (swapMode !== "exactIn" || expectedOutput === undefined) return undefined;
+    return applySlippage(expectedOutput, slippageBps);
+  }, [swapMode, expectedOutput, slippageBps]);
+
+  // Maximum input the contract may pull for an exact-output swap
+  const maximumInput = useMemo(() => {
+    if (swapMode !== "exactOut" || expectedInput === undefined) return undefined;
+    return applyMaxSlippage(expectedInput, slippageBps);
+  }, [swapMode, expectedInput, slippageBps]);
+
+  // Amount the swap may spend from the wallet: the exact input, or the slippage-capped maximum
+  const spendLimit = swapMode === "exactIn" ? parsedAmountIn : maximumInput;
+
+  // Exact-input swaps of permit tokens sign the approval instead of sending it
+  const permitDomain = usePermitDomain(tokenIn as Address);
+  const canPermit = swapMode === "exactIn" && !!permitDomain;
+
+  // Where the output goes: the connected account unless another recipient was entered
+  const recipient = useRecipient(recipientInput);
+  const recipientAddress = recipientInput.trim() ? recipient.address : (address as Address | undefined);
+
+  // Live summary for the review dialog; undefined until there is a full quote
+  const review = useMemo((): SwapReview | undefined => {
+    const limit = swapMode === "exactIn" ? minimumOutput : maximumInput;
+    if (!route || !tokenInInfo || !tokenOutInfo || !midPrice || priceImpactBps === undefined) return undefined;
+    if (limit === undefined || !recipientAddress) return undefined;
+    return {
+      mode: swapMode,
+      tokenIn: tokenInInfo,
+      tokenOut: tokenOutInfo,
+      route,
+      midPrice,
+      priceImpactBps,
+      limit,
+      slippageBps,
+      recipient: recipientAddress,
+      recipientName: recipient.ensName,
+      deadlineMinutes: settings.deadlineMinutes,
     };
-    updatePoolExists();
-  }, [tokenIn, tokenOut, checkPoolExists]);
+  }, [swapMode, minimumOutput, maximumInput, route, tokenInInfo, tokenOutInfo, midPrice, priceImpactBps, slippageBps, recipientAddress, recipient.ensName, settings.deadlineMinutes]);
 
   // Check allowance
   useEffect(() => {
     const checkAllowance = async () => {
-      if (!address || !tokenIn || !parsedAmountIn || !publicClient) return;
+      if (!address || !tokenIn || !spendLimit || !publicClient) return;
       
       try {
         const currentAllowance = await publicClient.readContract({
@@ -210,11 +250,11 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
             }
           ],
           functionName: "allowance",
-          args: [address, SIMPLESWAP_ADDRESS],
+          args: [address, simpleSwapAddress],
         }) as bigint;
 
-        setNeedsApproval(currentAllowance < parsedAmountIn);
-        setIsApproved(currentAllowance >= parsedAmountIn);
+        setNeedsApproval(currentAllowance < spendLimit);
+        setIsApproved(currentAllowance >= spendLimit);
       } catch (error) {
         console.error('Error checking allowance:', error);
         setNeedsApproval(true);
@@ -223,19 +263,18 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
     };
 
     checkAllowance();
-  }, [address, tokenIn, parsedAmountIn, publicClient]);
+  }, [address, tokenIn, spendLimit, publicClient, simpleSwapAddress]);
 
   const handleApprovalSuccess = useCallback(() => {
     setIsApproved(true);
     setNeedsApproval(false);
-    toast.success('Token approved successfully!');
   }, []);
 
   const handleApprovalError = useCallback((error: Error) => {
     console.error('Approval error:', error);
     setIsApproved(false);
     setNeedsApproval(true);
-    toast.error(error.message || 'Failed to approve token');
+    toast.error(getErrorMessage(error, 'Failed to approve token'));
   }, []);
 
   // Handle swap execution
@@ -246,6 +285,11 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
       return;
     }
 
+    if (isWrongNetwork) {
+      toast.error('Switch to a supported network to swap');
+      return;
+    }
+
     if (!tokenIn || !tokenOut) {
       toast.error('Please select both input and output tokens');
       return;
@@ -256,19 +300,22 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
       return;
     }
 
-    if (!parsedAmountIn || parsedAmountIn <= 0n) {
-      toast.error('Please enter a valid amount');
+    if (!recipientAddress) {
+      toast.error('Enter a valid recipient address');
       return;
     }
 
-    if (!expectedOutput || expectedOutput <= 0n) {
-      toast.error('Cannot calculate expected output. Pool might not exist.');
+    if (!expectedInput || !expectedOutput || expectedOutput <= 0n || !spendLimit) {
+      if (swapMode === "exactIn" ? !parsedAmountIn : !parsedAmountOut) {
+        toast.error('Please enter a valid amount');
+      } else {
+        toast.error('Cannot calculate the swap quote. Pool might not exist.');
+      }
       return;
     }
 
-    // Check if reserves exist (pool exists)
-    if (!reserves || reserves[0] <= 0n || reserves[1] <= 0n) {
-      toast.error('Liquidity pool does not exist for this token pair');
+    if (!route) {
+      toast.error('No liquidity route exists for this token pair');
       return;
     }
 
@@ -283,10 +330,10 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
       return;
     }
 
-    if (parsedAmountIn > tokenBalance) {
-      const tokenSymbol = tokens.find(t => t.address === tokenIn)?.symbol || 'tokens';
-      const formattedBalance = parseFloat(formatEther(tokenBalance)).toFixed(6);
-      const formattedAmount = parseFloat(amountIn).toFixed(6);
+    if (spendLimit > tokenBalance) {
+      const tokenSymbol = tokenInInfo?.symbol || 'tokens';
+      const formattedBalance = formatTokenAmount(tokenBalance, tokenInInfo, 6);
+      const formattedAmount = formatTokenAmount(spendLimit, tokenInInfo, 6);
       toast.error(`Insufficient balance. You have ${formattedBalance} ${tokenSymbol} but are trying to swap ${formattedAmount} ${tokenSymbol}`);
       return;
     }
@@ -313,10 +360,11 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
           }
         ],
         functionName: "allowance",
-        args: [address as Address, SIMPLESWAP_ADDRESS],
+        args: [address as Address, simpleSwapAddress],
       }) as bigint;
 
-      if (currentAllowance < parsedAmountIn) {
+      const needsPermit = currentAllowance < spendLimit;
+      if (needsPermit && !canPermit) {
         toast.error('Token not approved. Please approve first.');
         return;
       }
@@ -329,25 +377,62 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
         return;
       }
 
-      // Simulate the transaction first
-      const { request } = await publicClient.simulateContract({
-        address: SIMPLESWAP_ADDRESS,
-        abi: SIMPLESWAP_ABI,
-        functionName: 'swapExactTokensForTokens',
-        args: [
-          parsedAmountIn,
-          0n, // minAmountOut (handled by slippage)
-          [tokenIn as Address, tokenOut as Address],
-          address as Address,
-          BigInt(Math.floor(Date.now() / 1000) + 1200) // 20 minutes from now
-        ],
-        account: address as Address,
-      });
+      const { path, fees } = route;
+      const deadline = getDeadline(settings.deadlineMinutes);
+
+      // Simulate the transaction first, then execute it
+      let hash: `0x${string}`;
+      if (swapMode === "exactIn" && needsPermit && permitDomain) {
+        // Approve and swap in one transaction with a signed permit
+        const permit = await signPermit(walletClient, publicClient, {
+          token: tokenIn as Address,
+          domain: permitDomain,
+          owner: address as Address,
+          spender: simpleSwapAddress,
+          value: spendLimit,
+          deadline,
+        });
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: 'swapExactTokensForTokensWithPermit',
+          args: [spendLimit, minimumOutput ?? 0n, path, fees, recipientAddress, deadline, permit],
+          account: address as Address,
+        });
+        hash = await walletClient.writeContract(request);
+      } else if (swapMode === "exactIn") {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: 'swapExactTokensForTokens',
+          args: [spendLimit, minimumOutput ?? 0n, path, fees, recipientAddress, deadline],
+          account: address as Address,
+        });
+        hash = await walletClient.writeContract(request);
+      } else {
+        const { request } = await publicClient.simulateContract({
+          address: simpleSwapAddress,
+          abi: SIMPLESWAP_ABI,
+          functionName: 'swapTokensForExactTokens',
+          args: [expectedOutput, spendLimit, path, fees, recipientAddress, deadline],
+          account: address as Address,
+        });
+        hash = await walletClient.writeContract(request);
+      }
 
-      // Execute the transaction
-      const hash = await walletClient.writeContract(request);
-      
-      // Show loading toast
+      if (tokenInInfo && tokenOutInfo) {
+        addTransaction({
+          hash,
+          chainId: walletClient.chain.id,
+          account: address as Address,
+          type: 'swap',
+          tokens: [toTransactionToken(tokenInInfo, expectedInput), toTransactionToken(tokenOutInfo, expectedOutput)],
+        });
+      }
+
+      setIsReviewOpen(false);
+
+      // The transaction watcher reports the outcome; this toast only covers the wait
       const toastId = toast.loading("Processing swap...");
       
       // Wait for transaction receipt
@@ -356,41 +441,22 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
         confirmations: 1,
         timeout: 120_000 // 2 minute timeout
       });
+      toast.dismiss(toastId);
 
       if (receipt.status === 'success') {
-        toast.success('Swap completed successfully!', { id: toastId });
-        
         // Reset form
         setAmountIn("");
-        
-      } else {
-        throw new Error('Transaction reverted');
+        setAmountOut("");
       }
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Swap failed:', error);
       
-      // More specific error messages
-      let errorMessage = 'Swap failed';
-      if (error.message?.includes('INSUFFICIENT_LIQUIDITY')) {
-        errorMessage = 'Insufficient liquidity for this trade';
-      } else if (error.message?.includes('INSUFFICIENT_OUTPUT_AMOUNT')) {
-        errorMessage = 'Insufficient output amount';
-      } else if (error.message?.includes('INSUFFICIENT_INPUT_AMOUNT')) {
-        errorMessage = 'Insufficient input amount';
-      } else if (error.message) {
-        errorMessage = `Swap failed: ${error.message}`;
-      }
-      
-      toast.error(errorMessage);
+      toast.error(getErrorMessage(error, 'Swap failed'));
     } finally {
       setIsSwapping(false);
     }
-  }, [tokenIn, tokenOut, parsedAmountIn, expectedOutput, address, publicClient, walletClient, reserves, tokenBalance, tokens, isConnected]);
-
-  // Debug constants on mount
-  useEffect(() => {
-  }, [isConnected, publicClient, address]);
+  }, [tokenIn, tokenOut, swapMode, parsedAmountIn, parsedAmountOut, expectedInput, expectedOutput, minimumOutput, spendLimit, settings.deadlineMinutes, address, publicClient, walletClient, simpleSwapAddress, isWrongNetwork, route, tokenBalance, tokenInInfo, tokenOutInfo, recipientAddress, permitDomain, canPermit, isConnected]);
 
   // Update UI state based on conditions
   useEffect(() => {
@@ -406,15 +472,15 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
       return;
     }
 
-    if (poolExists === false) {
+    if (routeExists === false) {
       setShowPoolWarning(true);
       setIsLoading(false);
       return;
     }
 
-    if (isReservesError || isExpectedOutputError) {
+    if (poolsError) {
       setShowError(true);
-      setErrorMessage(`Error fetching pool data. ${reservesError?.message || expectedOutputError?.message || 'Please try again.'}`);
+      setErrorMessage(`Error fetching pool data. ${poolsError.message || 'Please try again.'}`);
       setIsLoading(false);
       return;
     }
@@ -423,22 +489,26 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
     setShowPoolWarning(false);
     setShowError(false);
     setIsLoading(false);
-  }, [isClientReady, publicClient, poolExists, isReservesError, isExpectedOutputError, reservesError, expectedOutputError]);
+  }, [isClientReady, publicClient, routeExists, poolsError]);
 
   // Disable swap button conditions with pool existence check
   const isSwapDisabled = useMemo(() => {
     return (
       isSwapping ||
+      isWrongNetwork ||
       !tokenIn ||
       !tokenOut ||
-      !parsedAmountIn ||
+      !expectedInput ||
       !expectedOutput ||
-      parsedAmountIn <= 0n ||
+      !spendLimit ||
+      expectedInput <= 0n ||
       expectedOutput <= 0n ||
-      (needsApproval && !isApproved) ||
-      poolExists !== true  // Only enable if pool definitely exists
+      (needsApproval && !isApproved && !canPermit) ||
+      isImpactBlocked ||
+      !recipientAddress ||
+      routeExists !== true  // Only enable if a route definitely exists
     );
-  }, [isSwapping, tokenIn, tokenOut, parsedAmountIn, expectedOutput, needsApproval, isApproved, poolExists]);
+  }, [isSwapping, isWrongNetwork, tokenIn, tokenOut, expectedInput, expectedOutput, spendLimit, needsApproval, isApproved, canPermit, isImpactBlocked, recipientAddress, routeExists]);
 
   // Show loading state
   if (isLoading) {
@@ -495,70 +565,76 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
     <Card>
       <CardContent className="space-y-6">
         <div className="space-y-4">
+          <div className="flex justify-end">
+            <TransactionSettingsPanel />
+          </div>
+
           {/* Input Token */}
           <div className="space-y-2">
             <Label>Input Token</Label>
-            <Select value={tokenIn} onValueChange={(value) => setTokenIn(value)}>
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select token">
-                  {tokenIn ? tokens.find(t => t.address === tokenIn)?.symbol : 'Select token'}
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {tokens.map((token) => (
-                  <SelectItem key={token.address} value={token.address}>
-                    <div className="flex items-center gap-2">
-                      <span>{token.symbol}</span>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <TokenSelect
+              value={tokenIn}
+              onValueChange={(value) => setTokenIn(value)}
+              className="w-full"
+            />
           </div>
 
           {/* Output Token */}
           <div className="space-y-2">
             <Label>Output Token</Label>
-            <Select value={tokenOut} onValueChange={(value) => setTokenOut(value)}>
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select token">
-                  {tokenOut ? tokens.find(t => t.address === tokenOut)?.symbol : 'Select token'}
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {tokens.map((token) => (
-                  <SelectItem key={token.address} value={token.address}>
-                    <div className="flex items-center gap-2">
-                      <span>{token.symbol}</span>
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <TokenSelect
+              value={tokenOut}
+              onValueChange={(value) => setTokenOut(value)}
+              className="w-full"
+            />
           </div>
 
           {/* Amount Input */}
           <div className="space-y-2">
-            <Label>Amount</Label>
+            <div className="flex items-center justify-between">
+              <Label>Amount</Label>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={swapMode === "exactIn" ? "default" : "outline"}
+                  onClick={() => setSwapMode("exactIn")}
+                >
+                  Sell exact
+                </Button>
+                <Button
+                  size="sm"
+                  variant={swapMode === "exactOut" ? "default" : "outline"}
+                  onClick={() => setSwapMode("exactOut")}
+                >
+                  Buy exact
+                </Button>
+              </div>
+            </div>
             <Input
               type="number"
               min="0"
               step="0.000001"
-              placeholder="0.0"
-              value={amountIn}
+              placeholder={swapMode === "exactIn"
+                ? `0.0 ${tokenInInfo?.symbol ?? ''}`.trim()
+                : `0.0 ${tokenOutInfo?.symbol ?? ''}`.trim()}
+              value={swapMode === "exactIn" ? amountIn : amountOut}
               onChange={(e) => {
                 const value = e.target.value;
                 // Only allow positive numbers
                 if (value === '' || (parseFloat(value) >= 0 && !isNaN(parseFloat(value)))) {
-                  setAmountIn(value);
+                  if (swapMode === "exactIn") {
+                    setAmountIn(value);
+                  } else {
+                    setAmountOut(value);
+                  }
                 }
               }}
               disabled={!tokenIn || !tokenOut}
             />
             {tokenIn && (
               <div className="text-sm text-muted-foreground">
-                Balance: {tokenBalance ? formatEther(tokenBalance) : '0.0'} {tokens.find(t => t.address === tokenIn)?.symbol}
-                {amountIn && tokenBalance && parsedAmountIn && parsedAmountIn > tokenBalance && (
+                Balance: {tokenBalance ? formatTokenAmount(tokenBalance, tokenInInfo) : '0.0'} {tokenInInfo?.symbol}
+                {tokenBalance !== undefined && spendLimit && spendLimit > tokenBalance && (
                   <div className="text-red-500 text-xs mt-1">
                     ⚠️ Amount exceeds balance
                   </div>
@@ -567,20 +643,29 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
             )}
           </div>
 
+          {/* Recipient */}
+          <RecipientInput
+            value={recipientInput}
+            onChange={setRecipientInput}
+            recipient={recipient}
+            isOpen={isRecipientOpen}
+            onOpenChange={setIsRecipientOpen}
+          />
+
           {/* Pool Status */}
           {tokenIn && tokenOut && (
             <>
-              {!poolExists && poolExists !== null && (
+              {routeExists === false && (
                 <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                   <p className="text-sm text-yellow-800">
-                    ⚠️ Liquidity pool doesn't exist for this token pair. 
+                    ⚠️ No liquidity pool or route exists for this token pair.
                     <br />
                     You need to add liquidity first before swapping.
                   </p>
                 </div>
               )}
               
-              {poolExists === null && tokenIn !== tokenOut && (
+              {routeExists === null && tokenIn !== tokenOut && (
                 <div className="text-sm text-gray-500">
                   Checking if liquidity pool exists...
                 </div>
@@ -591,62 +676,115 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
           {/* Price and Fee Information */}
           <div className="space-y-2 text-sm">
             {/* Exchange Rate */}
-            {reserves && reserves[0] > 0n && reserves[1] > 0n && (
+            {midPrice && tokenInInfo && tokenOutInfo && (
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Exchange Rate:</span>
                 <span className="font-medium">
-                  1 {tokens.find(t => t.address === tokenIn)?.symbol} = {formatEther((reserves[1] * parseEther('1')) / reserves[0])} {tokens.find(t => t.address === tokenOut)?.symbol}
+                  1 {tokenInInfo.symbol} = {formatRatio(midPrice.quote, tokenOutInfo, midPrice.base, tokenInInfo)} {tokenOutInfo.symbol}
+                </span>
+              </div>
+            )}
+
+            {/* Route */}
+            {routeSymbols && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Route:</span>
+                <span className="font-medium">
+                  {routeSymbols.join(' → ')}
+                  {routeSymbols.length > 2 && (
+                    <span className="text-xs text-muted-foreground ml-1">({routeSymbols.length - 1} hops)</span>
+                  )}
                 </span>
               </div>
             )}
 
             {/* Expected Output */}
-            {expectedOutput !== undefined && parsedAmountIn && parsedAmountIn > 0n && (
+            {expectedOutput !== undefined && expectedInput && expectedInput > 0n && (
               <>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Expected Output:</span>
-                  <span className="font-medium">
-                    {formatEther(expectedOutput)} {tokens.find(t => t.address === tokenOut)?.symbol}
-                  </span>
-                </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Price impact: {reserves ? (((Number(expectedOutput) - Number(reserves[1] * parsedAmountIn / reserves[0])) / Number(reserves[1] * parsedAmountIn / reserves[0]) * 100)).toFixed(2) : '0.00'}%
-                </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  Includes 0.3% trading fee
-                </div>
+                {swapMode === "exactIn" ? (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Expected Output:</span>
+                    <span className="font-medium">
+                      {formatTokenAmount(expectedOutput, tokenOutInfo)} {tokenOutInfo?.symbol}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Required Input:</span>
+                    <span className="font-medium">
+                      {formatTokenAmount(expectedInput, tokenInInfo)} {tokenInInfo?.symbol}
+                    </span>
+                  </div>
+                )}
+                {minimumOutput !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Minimum received ({formatBps(slippageBps)} slippage):</span>
+                    <span className="font-medium">
+                      {formatTokenAmount(minimumOutput, tokenOutInfo)} {tokenOutInfo?.symbol}
+                    </span>
+                  </div>
+                )}
+                {maximumInput !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Maximum sold ({formatBps(slippageBps)} slippage):</span>
+                    <span className="font-medium">
+                      {formatTokenAmount(maximumInput, tokenInInfo)} {tokenInInfo?.symbol}
+                    </span>
+                  </div>
+                )}
+                {priceImpactBps !== undefined && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Price impact:{' '}
+                    <span className={`font-medium ${PRICE_IMPACT_TIER_CLASSES[getPriceImpactTier(priceImpactBps)]}`}>
+                      {formatBps(priceImpactBps)}
+                    </span>
+                  </div>
+                )}
+                {isImpactBlocked && (
+                  <div className="text-xs text-red-500 mt-1">
+                    ⚠️ Price impact is above {formatBps(MAX_PRICE_IMPACT_BPS)}. Swap a smaller amount.
+                  </div>
+                )}
+                {route && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Includes {formatRouteFeeTiers(route.fees)} trading fee
+                  </div>
+                )}
               </>
             )}
           </div>
 
           {/* Errors */}
-          {isReservesError && (
+          {isQuoteError && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-sm text-red-800">
-                ⚠️ No liquidity pool exists for this token pair.
+                ⚠️ Cannot calculate the swap quote.
                 <br />
-                <span className="text-xs">You need to add liquidity first in the "Liquidity" tab.</span>
-              </p>
-            </div>
-          )}
-
-          {isExpectedOutputError && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
-              <p className="text-sm text-red-800">
-                ⚠️ Cannot calculate expected output.
-                <br />
-                <span className="text-xs">Verify that the pool has sufficient liquidity.</span>
+                <span className="text-xs">The pools on every route are too shallow for this amount.</span>
               </p>
             </div>
           )}
 
           {/* Action Buttons */}
           <div className="pt-4">
-            {needsApproval && tokenIn && !isApproved ? (
+            {!isConnected ? (
+              <Button
+                onClick={requestWallet}
+                disabled={isConnecting}
+                className="w-full"
+                style={{
+                  background: '#00ADB5',
+                  border: '1px solid #00ADB5',
+                  color: '#fff'
+                }}
+              >
+                {isConnecting ? 'Connecting...' : 'Connect wallet to swap'}
+              </Button>
+            ) : needsApproval && tokenIn && !isApproved && !canPermit ? (
               <TokenApproval
                 tokenAddress={tokenIn as Address}
-                spenderAddress={SIMPLESWAP_ADDRESS}
-                amount={parsedAmountIn || 0n}
+                spenderAddress={simpleSwapAddress}
+                amount={spendLimit || 0n}
                 onSuccess={handleApprovalSuccess}
                 onError={handleApprovalError}
                 isApproved={isApproved}
@@ -654,8 +792,8 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
               />
             ) : (
               <Button
-                onClick={handleSwap}
-                disabled={isSwapDisabled}
+                onClick={() => setIsReviewOpen(true)}
+                disabled={isSwapDisabled || !review}
                 className="w-full"
                 style={{
                   background: '#00ADB5',
@@ -668,7 +806,11 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Swapping...
                   </>
-                ) : isReservesLoading || isExpectedOutputLoading ? (
+                ) : isWrongNetwork ? (
+                  'Wrong network'
+                ) : isImpactBlocked ? (
+                  'Price impact too high'
+                ) : isPoolsLoading && pools.length === 0 ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Loading...
@@ -678,8 +820,21 @@ export function SwapInterface({ onNavigateToLiquidity }: SwapInterfaceProps) {
                 )}
               </Button>
             )}
+            {isConnected && needsApproval && !isApproved && canPermit && (
+              <p className="text-xs text-muted-foreground text-center mt-2">
+                {tokenInInfo?.symbol} supports permits: you'll sign the approval in your wallet instead of sending a separate transaction.
+              </p>
+            )}
           </div>
         </div>
+
+        <SwapReviewDialog
+          open={isReviewOpen}
+          onOpenChange={setIsReviewOpen}
+          review={review}
+          isSwapping={isSwapping}
+          onConfirm={handleSwap}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,218 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Address } from "viem"
+import { AlertTriangle, ArrowDown, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { useTransactionSettings } from "@/hooks/use-transaction-settings"
+import { formatRatio, formatTokenAmount } from "@/lib/amounts"
+import type { TokenInfo } from "@/lib/constants"
+import {
+  MAX_PRICE_IMPACT_BPS,
+  PRICE_IMPACT_TIER_CLASSES,
+  getPriceImpactTier,
+  isPriceImpactBlocked,
+} from "@/lib/price-impact"
+import { formatRouteFeeTiers, getRouteFees, type Price, type SwapRoute } from "@/lib/router"
+import { findToken } from "@/lib/token-registry"
+import { formatBps } from "@/lib/transaction-settings"
+
+// Everything the user is asked to sign off on, as currently quoted
+export interface SwapReview {
+  mode: "exactIn" | "exactOut"
+  tokenIn: TokenInfo
+  tokenOut: TokenInfo
+  route: SwapRoute
+  midPrice: Price
+  priceImpactBps: number
+  limit: bigint // minimum received for exactIn, maximum sold for exactOut
+  slippageBps: number
+  recipient: Address
+  recipientName?: string // ENS name the recipient was entered as
+  deadlineMinutes: number
+}
+
+interface SwapReviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  review: SwapReview | undefined
+  isSwapping: boolean
+  onConfirm: () => void
+}
+
+function isSameRoute(a: SwapRoute, b: SwapRoute): boolean {
+  return (
+    a.path.length === b.path.length &&
+    a.path.every((token, i) => token === b.path[i]) &&
+    a.fees.every((fee, i) => fee === b.fees[i]) &&
+    a.amounts.every((amount, i) => amount === b.amounts[i])
+  )
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right">{children}</span>
+    </div>
+  )
+}
+
+/**
+ * Summary shown before a swap is signed. The quote keeps updating while the
+ * dialog is open; if it moves away from the one the user saw, confirming is
+ * blocked until they accept the new one.
+ */
+export function SwapReviewDialog({ open, onOpenChange, review, isSwapping, onConfirm }: SwapReviewDialogProps) {
+  const { tokens } = useTokenRegistry()
+  const { settings } = useTransactionSettings()
+  const [acceptedRoute, setAcceptedRoute] = useState<SwapRoute | undefined>()
+  const [impactAcknowledged, setImpactAcknowledged] = useState(false)
+
+  // Take the quote on screen as accepted each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAcceptedRoute(review?.route)
+      setImpactAcknowledged(false)
+    }
+  }, [open])
+
+  if (!review) return null
+
+  const { mode, tokenIn, tokenOut, route, midPrice, priceImpactBps, limit, slippageBps } = review
+  const amountIn = route.amounts[0]
+  const amountOut = route.amounts[route.amounts.length - 1]
+  const quoteChanged = !!acceptedRoute && !isSameRoute(acceptedRoute, route)
+  const fees = getRouteFees(route)
+  const isBlocked = isPriceImpactBlocked(priceImpactBps)
+  const needsAcknowledgement = priceImpactBps > settings.priceImpactConfirmBps
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review swap</DialogTitle>
+          <DialogDescription>Check the details below before signing in your wallet.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <div className="bg-secondary p-3 rounded-lg border border-border">
+            <div className="text-xs text-muted-foreground">You pay{mode === "exactOut" ? " (estimated)" : ""}</div>
+            <div className="text-lg font-semibold text-foreground">
+              {formatTokenAmount(amountIn, tokenIn, 6)} {tokenIn.symbol}
+            </div>
+          </div>
+          <div className="flex justify-center">
+            <ArrowDown className="w-4 h-4 text-muted-foreground" />
+          </div>
+          <div className="bg-secondary p-3 rounded-lg border border-border">
+            <div className="text-xs text-muted-foreground">You receive{mode === "exactIn" ? " (estimated)" : ""}</div>
+            <div className="text-lg font-semibold text-foreground">
+              {formatTokenAmount(amountOut, tokenOut, 6)} {tokenOut.symbol}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2 text-sm">
+          {mode === "exactIn" ? (
+            <Row label={`Minimum received (${formatBps(slippageBps)} slippage)`}>
+              {formatTokenAmount(limit, tokenOut)} {tokenOut.symbol}
+            </Row>
+          ) : (
+            <Row label={`Maximum sold (${formatBps(slippageBps)} slippage)`}>
+              {formatTokenAmount(limit, tokenIn)} {tokenIn.symbol}
+            </Row>
+          )}
+          <Row label="Execution price">
+            1 {tokenIn.symbol} = {formatRatio(amountOut, tokenOut, amountIn, tokenIn)} {tokenOut.symbol}
+          </Row>
+          <Row label="Mid price">
+            1 {tokenIn.symbol} = {formatRatio(midPrice.quote, tokenOut, midPrice.base, tokenIn)} {tokenOut.symbol}
+          </Row>
+          <Row label="Price impact">
+            <span className={PRICE_IMPACT_TIER_CLASSES[getPriceImpactTier(priceImpactBps)]}>
+              {formatBps(priceImpactBps)}
+            </span>
+          </Row>
+          <Row label={`Fee (${formatRouteFeeTiers(route.fees)})`}>
+            {fees
+              .map((fee, i) => {
+                const token = findToken(tokens, route.path[i])
+                return `${formatTokenAmount(fee, token, 6)} ${token?.symbol ?? route.path[i].slice(0, 6)}`
+              })
+              .join(" + ")}
+          </Row>
+          <Row label="Recipient">
+            {review.recipientName && <span className="mr-1">{review.recipientName}</span>}
+            <span className="font-mono">
+              {review.recipient.slice(0, 6)}…{review.recipient.slice(-4)}
+            </span>
+          </Row>
+          <Row label="Deadline">{review.deadlineMinutes} minutes</Row>
+        </div>
+
+        {quoteChanged && (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-md border border-yellow-500/40 bg-yellow-500/10 text-sm">
+            <span className="flex items-center gap-2 text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              The quote changed since you opened this review.
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setAcceptedRoute(route)}>
+              Accept
+            </Button>
+          </div>
+        )}
+
+        {isBlocked && (
+          <p className="text-sm text-red-500">
+            Price impact is above {formatBps(MAX_PRICE_IMPACT_BPS)}, so this swap is blocked. Swap a smaller amount.
+          </p>
+        )}
+
+        {needsAcknowledgement && !isBlocked && (
+          <div className="flex items-start gap-3 p-3 rounded-md border border-red-500/40 bg-red-500/10 text-sm">
+            <Checkbox
+              id="price-impact-acknowledged"
+              checked={impactAcknowledged}
+              onCheckedChange={(checked) => setImpactAcknowledged(checked === true)}
+            />
+            <Label htmlFor="price-impact-acknowledged" className="leading-snug">
+              I understand this swap moves the price by {formatBps(priceImpactBps)} and I may receive much less than
+              the mid price suggests.
+            </Label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSwapping}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isSwapping || quoteChanged || isBlocked || (needsAcknowledgement && !impactAcknowledged)}
+          >
+            {isSwapping ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Confirm in wallet...
+              </>
+            ) : (
+              "Confirm swap"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -5,7 +5,12 @@ import { useAccount, useWriteContract, useReadContract, usePublicClient } from "
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Loader2, Check } from "lucide-react"
-import { SIMPLESWAP_ADDRESS, SUPPORTED_TOKENS, type TokenInfo } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { findToken } from "@/lib/token-registry"
+import { addTransaction } from "@/hooks/use-transactions"
+import { toTransactionToken } from "@/lib/transactions"
 
 // ERC20 ABI for approval functions
 const ERC20_ABI = [
@@ -55,8 +60,10 @@ export function TokenApproval({
   className = ''
 }: TokenApprovalProps): JSX.Element {
   const [isLoading, setIsLoading] = useState(false);
-  const { address } = useAccount();
+  const { address, chainId } = useAccount();
   const publicClient = usePublicClient();
+  const { isWrongNetwork } = useNetworkStatus();
+  const { tokens } = useTokenRegistry();
   
   const { writeContractAsync, isPending } = useWriteContract({
     mutation: {
@@ -122,6 +129,17 @@ export function TokenApproval({
         args: [spenderAddress, amount],
       });
 
+      if (address && chainId) {
+        const tokenInfo = findToken(tokens, tokenAddress);
+        addTransaction({
+          hash,
+          chainId,
+          account: address,
+          type: 'approve',
+          tokens: tokenInfo ? [toTransactionToken(tokenInfo, amount)] : [],
+        });
+      }
+
       // Wait for the transaction to be mined
       const receipt = await publicClient.waitForTransactionReceipt({
         hash,
@@ -158,7 +176,7 @@ export function TokenApproval({
   }
 
   const isTokenApproved = isApproved || (currentAllowance !== undefined && currentAllowance >= amount);
-  const isButtonDisabled = isLoading || isPending || isTokenApproved;
+  const isButtonDisabled = isLoading || isPending || isTokenApproved || isWrongNetwork;
 
   if (isLoading || isPending) {
     return (
@@ -201,7 +219,7 @@ interface TokenApprovalCardProps {
 
 export function TokenApprovalCard({
   tokenAddress,
-  spenderAddress = SIMPLESWAP_ADDRESS,
+  spenderAddress,
   amount = 0n,
   onSuccess = () => {},
   onError = () => {},
@@ -209,9 +227,9 @@ export function TokenApprovalCard({
   className = ''
 }: TokenApprovalCardProps) {
   
-  const tokenInfo = tokenAddress ? SUPPORTED_TOKENS.find(
-    (token: TokenInfo) => token.address.toLowerCase() === tokenAddress.toLowerCase()
-  ) : undefined
+  const { tokens } = useTokenRegistry()
+  const { simpleSwapAddress } = useChainConfig()
+  const tokenInfo = findToken(tokens, tokenAddress)
 
   if (!tokenInfo || !tokenAddress) {
     return null;
@@ -237,7 +255,7 @@ export function TokenApprovalCard({
       <CardContent>
         <TokenApproval
           tokenAddress={safeTokenAddress}
-          spenderAddress={spenderAddress || SIMPLESWAP_ADDRESS}
+          spenderAddress={spenderAddress || simpleSwapAddress}
           amount={amount}
           onSuccess={onSuccess}
           onError={onError}
@@ -1,14 +1,21 @@
 "use client"
 
 import { useState } from "react"
-import { useAccount, useWriteContract } from "wagmi"
-import { parseEther } from "viem"
+import { useAccount, usePublicClient, useWriteContract } from "wagmi"
+import { useQueryClient } from "@tanstack/react-query"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Loader2, Coins } from "lucide-react"
 import { toast } from "sonner"
-import { SUPPORTED_TOKENS } from "@/lib/constants"
+import type { TokenInfo } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { useRequireWallet } from "@/hooks/use-require-wallet"
+import { addTransaction } from "@/hooks/use-transactions"
+import { parseTokenAmount } from "@/lib/amounts"
+import { getErrorMessage } from "@/lib/errors"
+import { toTransactionToken } from "@/lib/transactions"
 
 // ERC20 ABI for mint function
 const ERC20_MINT_ABI = [
@@ -39,44 +46,85 @@ const ERC20_MINT_ABI = [
 
 export function TokenFaucet() {
   const [isLoading, setIsLoading] = useState(false)
-  const { isConnected, address } = useAccount()
-  const { writeContract } = useWriteContract()
+  const { isConnected, address, chainId } = useAccount()
+  const { writeContractAsync } = useWriteContract()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { tokens } = useChainConfig()
+  const { isWrongNetwork } = useNetworkStatus()
+  const { isConnecting, requestWallet } = useRequireWallet()
 
-  const handleMintToken = async (tokenAddress: string, symbol: string, amount: string) => {
-    if (!isConnected || !address) {
+  const handleMintToken = async (token: TokenInfo, amount: string) => {
+    if (!isConnected || !address || !chainId) {
       toast.error("Please connect your wallet first")
       return
     }
 
+    if (isWrongNetwork) {
+      toast.error("Switch to a supported network to get test tokens")
+      return
+    }
+
+    if (!publicClient) {
+      toast.error("Public client not available")
+      return
+    }
+
+    const { address: tokenAddress, symbol } = token
+    const parsedAmount = parseTokenAmount(amount, token)
+    if (!parsedAmount) {
+      toast.error("Invalid amount")
+      return
+    }
+
     setIsLoading(true)
     try {
       console.log(`Minting ${amount} ${symbol} to ${address}`)
-      
-      await writeContract({
-        address: tokenAddress as `0x${string}`,
-        abi: ERC20_MINT_ABI,
-        functionName: "mint",
-        args: [address, parseEther(amount)],
-      })
 
-      toast.success(`Successfully minted ${amount} ${symbol}!`)
-    } catch (error: any) {
-      console.error(`Failed to mint ${symbol}:`, error)
-      
-      // Try faucet function as fallback
-      try {
-        console.log(`Trying faucet function for ${symbol}`)
-        await writeContract({
-          address: tokenAddress as `0x${string}`,
+      // Test tokens expose either mint(to, amount) or faucet(amount). Fall back
+      // to faucet only when mint would revert, never after a wallet rejection.
+      const mintRequest = await publicClient
+        .simulateContract({
+          address: tokenAddress,
+          abi: ERC20_MINT_ABI,
+          functionName: "mint",
+          args: [address, parsedAmount],
+          account: address,
+        })
+        .then(({ request }) => request)
+        .catch((mintError) => {
+          console.warn(`mint is not available for ${symbol}, trying faucet:`, mintError)
+          return undefined
+        })
+
+      let hash: `0x${string}`
+      if (mintRequest) {
+        hash = await writeContractAsync(mintRequest)
+      } else {
+        const { request } = await publicClient.simulateContract({
+          address: tokenAddress,
           abi: ERC20_MINT_ABI,
           functionName: "faucet",
-          args: [parseEther(amount)],
+          args: [parsedAmount],
+          account: address,
         })
-        toast.success(`Successfully obtained ${amount} ${symbol} via faucet!`)
-      } catch (faucetError: any) {
-        console.error(`Faucet also failed for ${symbol}:`, faucetError)
-        toast.error(`Failed to get ${symbol}: ${faucetError.message || "Unknown error"}`)
+        hash = await writeContractAsync(request)
+      }
+
+      addTransaction({ hash, chainId, account: address, type: "mint", tokens: [toTransactionToken(token, parsedAmount)] })
+
+      // The transaction watcher reports the outcome; this toast only covers the wait
+      const toastId = toast.loading(`Getting ${amount} ${symbol}...`)
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      toast.dismiss(toastId)
+
+      // Balances shown anywhere in the app are wagmi reads, so refresh them all
+      if (receipt.status === "success") {
+        await queryClient.invalidateQueries()
       }
+    } catch (error) {
+      console.error(`Failed to get ${symbol}:`, error)
+      toast.error(getErrorMessage(error, `Failed to get ${symbol}`))
     } finally {
       setIsLoading(false)
     }
@@ -89,6 +137,9 @@ export function TokenFaucet() {
           <div className="text-center text-muted-foreground">
             <Coins className="w-8 h-8 mx-auto mb-2" />
             <p>Connect your wallet to get test tokens</p>
+            <Button onClick={requestWallet} disabled={isConnecting} variant="outline" className="mt-4">
+              {isConnecting ? "Connecting..." : "Connect wallet"}
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -108,7 +159,7 @@ export function TokenFaucet() {
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="grid grid-cols-2 gap-4">
-          {SUPPORTED_TOKENS.map((token) => (
+          {tokens.map((token) => (
             <div key={token.address} className="space-y-2">
               <div className="flex items-center justify-between">
                 <span className="font-medium">{token.symbol}</span>
@@ -122,8 +173,8 @@ export function TokenFaucet() {
               <div className="flex gap-2">
                 <Button
                   size="sm"
-                  onClick={() => handleMintToken(token.address, token.symbol, "10")}
-                  disabled={isLoading}
+                  onClick={() => handleMintToken(token, "10")}
+                  disabled={isLoading || isWrongNetwork}
                   className="flex-1"
                   style={{
                     background: '#00ADB5',
@@ -140,8 +191,8 @@ export function TokenFaucet() {
                 <Button
                   size="sm"
                   variant="outline"
-                  onClick={() => handleMintToken(token.address, token.symbol, "100")}
-                  disabled={isLoading}
+                  onClick={() => handleMintToken(token, "100")}
+                  disabled={isLoading || isWrongNetwork}
                   className="flex-1"
                 >
                   {isLoading ? (
@@ -166,4 +217,4 @@ export function TokenFaucet() {
       </CardContent>
     </Card>
   )
-} 
\ No newline at end of file
+} 
\ No newline at end of file
@@ -0,0 +1,154 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { isAddress, type Address } from "viem"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useReadClient } from "@/hooks/use-read-client"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { fetchTokenMetadata, findToken } from "@/lib/token-registry"
+import type { TokenInfo } from "@/lib/constants"
+
+interface TokenImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported?: (token: TokenInfo) => void
+}
+
+export function TokenImportDialog({ open, onOpenChange, onImported }: TokenImportDialogProps) {
+  const publicClient = useReadClient()
+  const { tokens, importToken } = useTokenRegistry()
+  const [address, setAddress] = useState("")
+  const [token, setToken] = useState<TokenInfo | null>(null)
+  const [isLookingUp, setIsLookingUp] = useState(false)
+  const [lookupError, setLookupError] = useState<string | null>(null)
+
+  const trimmed = address.trim()
+  const isValidAddress = isAddress(trimmed, { strict: false })
+  const existing = isValidAddress ? findToken(tokens, trimmed) : undefined
+
+  // Read the token metadata whenever a new, unknown address is pasted
+  useEffect(() => {
+    setToken(null)
+    setLookupError(null)
+    setIsLookingUp(false)
+    if (!isValidAddress || existing || !publicClient) return
+
+    let cancelled = false
+    setIsLookingUp(true)
+    fetchTokenMetadata(publicClient, trimmed as Address)
+      .then((metadata) => {
+        if (!cancelled) setToken(metadata)
+      })
+      .catch(() => {
+        if (!cancelled) setLookupError("This address is not an ERC-20 token on the current network.")
+      })
+      .finally(() => {
+        if (!cancelled) setIsLookingUp(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [trimmed, isValidAddress, existing, publicClient])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setAddress("")
+    onOpenChange(next)
+  }
+
+  const handleImport = () => {
+    const selected = existing ?? token
+    if (!selected) return
+    if (!existing) importToken(selected)
+    onImported?.(selected)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import token</DialogTitle>
+          <DialogDescription>Paste the contract address of any ERC-20 token.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="token-import-address" className="text-muted-foreground">Token address</Label>
+          <Input
+            id="token-import-address"
+            placeholder="0x..."
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            className="bg-secondary border-border font-mono"
+          />
+          {trimmed && !isValidAddress && (
+            <p className="text-xs text-red-500">Enter a valid address.</p>
+          )}
+          {lookupError && <p className="text-xs text-red-500">{lookupError}</p>}
+          {isLookingUp && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Reading token details...
+            </div>
+          )}
+        </div>
+
+        {existing && (
+          <p className="text-sm text-muted-foreground">
+            {existing.symbol} is already in your token list.
+          </p>
+        )}
+
+        {token && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="bg-background p-3 rounded-lg border border-border">
+                <span className="text-muted-foreground">Symbol</span>
+                <div className="font-semibold text-foreground">{token.symbol}</div>
+              </div>
+              <div className="bg-background p-3 rounded-lg border border-border col-span-2">
+                <span className="text-muted-foreground">Name</span>
+                <div className="font-semibold text-foreground truncate">{token.name}</div>
+              </div>
+              <div className="bg-background p-3 rounded-lg border border-border">
+                <span className="text-muted-foreground">Decimals</span>
+                <div className="font-semibold text-foreground">{token.decimals}</div>
+              </div>
+              <div className="bg-background p-3 rounded-lg border border-border col-span-2">
+                <span className="text-muted-foreground">Address</span>
+                <div className="font-mono text-xs text-foreground truncate">{token.address}</div>
+              </div>
+            </div>
+            <div className="flex gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+              <AlertTriangle className="w-4 h-4 text-yellow-700 shrink-0 mt-0.5" />
+              <p className="text-sm text-yellow-800">
+                This token is unverified. Anyone can deploy a token with any name and symbol,
+                including copies of existing tokens. Only import it if you trust the address.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!token && !existing}>
+            {existing ? "Select" : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Loader2, Trash2, Upload } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { createTokenList, fetchTokenList, getListTokens, parseTokenList } from "@/lib/token-lists"
+
+interface TokenListsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Adds token lists from a URL or a local JSON file, removes them, and
+ * exports the tokens currently in the registry as a list of its own.
+ */
+export function TokenListsDialog({ open, onOpenChange }: TokenListsDialogProps) {
+  const { tokens, chainId, lists, addTokenList, removeTokenList } = useTokenRegistry()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [url, setUrl] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const trimmed = url.trim()
+
+  const handleAddUrl = async () => {
+    setLoadError(null)
+    setIsLoading(true)
+    try {
+      const list = await fetchTokenList(trimmed)
+      addTokenList(trimmed, list, trimmed)
+      toast.success(`Added ${list.name}`)
+      setUrl("")
+    } catch (error) {
+      console.error("Error loading token list:", error)
+      setLoadError(error instanceof Error ? error.message : "Could not load the token list")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    setLoadError(null)
+    try {
+      const list = parseTokenList(JSON.parse(await file.text()))
+      addTokenList(`file:${file.name}`, list)
+      toast.success(`Added ${list.name}`)
+    } catch (error) {
+      console.error("Error reading token list file:", error)
+      setLoadError(
+        error instanceof SyntaxError
+          ? "This file is not valid JSON"
+          : error instanceof Error
+            ? error.message
+            : "Could not read the token list"
+      )
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const handleExport = () => {
+    const list = createTokenList(tokens, chainId)
+    const blob = new Blob([JSON.stringify(list, null, 2)], { type: "application/json" })
+    const href = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = href
+    link.download = `simpleswap-tokens-${chainId}.json`
+    link.click()
+    URL.revokeObjectURL(href)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Token lists</DialogTitle>
+          <DialogDescription>
+            Load lists in the tokenlists.org format. Only tokens on the current network are shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="token-list-url" className="text-muted-foreground">List URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="token-list-url"
+              placeholder="https://..."
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="bg-secondary border-border"
+            />
+            <Button onClick={handleAddUrl} disabled={!trimmed || isLoading}>
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Add"}
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+            }}
+          />
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" />
+            Load from file
+          </Button>
+          {loadError && <p className="text-xs text-red-500">{loadError}</p>}
+        </div>
+
+        <div className="space-y-2">
+          {lists.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No token lists added yet.</p>
+          ) : (
+            lists.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between bg-background p-3 rounded-lg border border-border"
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-foreground truncate">
+                    {entry.list.name}{" "}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      v{entry.list.version.major}.{entry.list.version.minor}.{entry.list.version.patch}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {getListTokens(entry.list, chainId).length} of {entry.list.tokens.length} tokens on this network
+                    {entry.url ? ` · ${entry.url}` : ""}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removeTokenList(entry.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="gap-2" onClick={handleExport}>
+            <Download className="w-4 h-4" />
+            Export registry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react"
+import { List, Plus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TokenImportDialog } from "@/components/token-import-dialog"
+import { TokenListsDialog } from "@/components/token-lists-dialog"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+
+interface TokenSelectProps {
+  value: string
+  onValueChange: (address: string) => void
+  placeholder?: string
+  className?: string
+}
+
+/**
+ * Token picker over the default tokens, loaded token lists and the user's
+ * imported ones, with entries to import a token by address and manage lists.
+ */
+export function TokenSelect({ value, onValueChange, placeholder = "Select token", className }: TokenSelectProps) {
+  const { tokens } = useTokenRegistry()
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isListsOpen, setIsListsOpen] = useState(false)
+
+  return (
+    <>
+      <Select value={value} onValueChange={onValueChange}>
+        <SelectTrigger className={className}>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {tokens.map((token) => (
+            <SelectItem key={token.address} value={token.address}>
+              <div className="flex items-center gap-2">
+                <span>{token.symbol}</span>
+                {token.source && (
+                  <span className="text-xs text-muted-foreground truncate">{token.source}</span>
+                )}
+                {token.imported && (
+                  <Badge variant="outline" className="text-[10px] px-1 py-0 text-yellow-600 border-yellow-400">
+                    Unverified
+                  </Badge>
+                )}
+              </div>
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start gap-2 text-muted-foreground"
+            onClick={() => setIsImportOpen(true)}
+          >
+            <Plus className="w-4 h-4" />
+            Import token
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start gap-2 text-muted-foreground"
+            onClick={() => setIsListsOpen(true)}
+          >
+            <List className="w-4 h-4" />
+            Manage token lists
+          </Button>
+        </SelectContent>
+      </Select>
+      <TokenImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={(token) => onValueChange(token.address)}
+      />
+      <TokenListsDialog open={isListsOpen} onOpenChange={setIsListsOpen} />
+    </>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Settings } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useTransactionSettings } from "@/hooks/use-transaction-settings"
+import {
+  AUTO_SLIPPAGE_BPS,
+  MAX_DEADLINE_MINUTES,
+  MAX_SLIPPAGE_BPS,
+  SLIPPAGE_PRESETS_BPS,
+  formatBps,
+  isValidDeadlineMinutes,
+  isValidSlippageBps,
+} from "@/lib/transaction-settings"
+import { MAX_PRICE_IMPACT_BPS, isValidPriceImpactConfirmBps } from "@/lib/price-impact"
+
+// Above this tolerance a swap is an easy target for sandwich attacks
+const HIGH_SLIPPAGE_BPS = 500
+
+export function TransactionSettingsPanel() {
+  const { settings, slippageBps, updateSettings } = useTransactionSettings()
+  const [customSlippage, setCustomSlippage] = useState("")
+  const [deadline, setDeadline] = useState(settings.deadlineMinutes.toString())
+  const [impactConfirm, setImpactConfirm] = useState((settings.priceImpactConfirmBps / 100).toString())
+
+  // Keep the inputs in sync when settings change elsewhere, without
+  // clobbering what the user is still typing
+  useEffect(() => {
+    setCustomSlippage((current) => {
+      if (current && Math.round(Number.parseFloat(current) * 100) === settings.slippage) return current
+      const isPreset = settings.slippage === "auto" ||
+        (SLIPPAGE_PRESETS_BPS as readonly number[]).includes(settings.slippage)
+      return isPreset ? "" : (Number(settings.slippage) / 100).toString()
+    })
+    setDeadline((current) =>
+      Number(current) === settings.deadlineMinutes ? current : settings.deadlineMinutes.toString()
+    )
+    setImpactConfirm((current) =>
+      Math.round(Number.parseFloat(current) * 100) === settings.priceImpactConfirmBps
+        ? current
+        : (settings.priceImpactConfirmBps / 100).toString()
+    )
+  }, [settings])
+
+  const handleCustomSlippageChange = (value: string) => {
+    setCustomSlippage(value)
+    if (value === "") {
+      updateSettings({ slippage: "auto" })
+      return
+    }
+    const bps = Math.round(Number.parseFloat(value) * 100)
+    if (isValidSlippageBps(bps)) {
+      updateSettings({ slippage: bps })
+    }
+  }
+
+  const handleDeadlineChange = (value: string) => {
+    setDeadline(value)
+    const minutes = Number(value)
+    if (isValidDeadlineMinutes(minutes)) {
+      updateSettings({ deadlineMinutes: minutes })
+    }
+  }
+
+  const handleImpactConfirmChange = (value: string) => {
+    setImpactConfirm(value)
+    const bps = Math.round(Number.parseFloat(value) * 100)
+    if (isValidPriceImpactConfirmBps(bps)) {
+      updateSettings({ priceImpactConfirmBps: bps })
+    }
+  }
+
+  const customSlippageBps = customSlippage ? Math.round(Number.parseFloat(customSlippage) * 100) : undefined
+  const isCustomSlippageInvalid = customSlippageBps !== undefined && !isValidSlippageBps(customSlippageBps)
+  const isDeadlineInvalid = !isValidDeadlineMinutes(Number(deadline))
+  const isImpactConfirmInvalid = !isValidPriceImpactConfirmBps(Math.round(Number.parseFloat(impactConfirm) * 100))
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+          <Settings className="w-4 h-4" />
+          <span className="text-xs">
+            {settings.slippage === "auto" ? "Auto" : formatBps(slippageBps)} · {settings.deadlineMinutes}m
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label className="text-muted-foreground">Slippage tolerance</Label>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={settings.slippage === "auto" ? "default" : "outline"}
+              onClick={() => updateSettings({ slippage: "auto" })}
+            >
+              Auto
+            </Button>
+            {SLIPPAGE_PRESETS_BPS.map((bps) => (
+              <Button
+                key={bps}
+                size="sm"
+                variant={settings.slippage === bps ? "default" : "outline"}
+                onClick={() => updateSettings({ slippage: bps })}
+              >
+                {formatBps(bps)}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0.01"
+              max={MAX_SLIPPAGE_BPS / 100}
+              step="0.01"
+              placeholder="Custom"
+              value={customSlippage}
+              onChange={(e) => handleCustomSlippageChange(e.target.value)}
+              className="bg-secondary border-border"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+          </div>
+          {settings.slippage === "auto" && (
+            <p className="text-xs text-muted-foreground">
+              Auto uses {formatBps(AUTO_SLIPPAGE_BPS)} of the quoted amount.
+            </p>
+          )}
+          {isCustomSlippageInvalid && (
+            <p className="text-xs text-red-500">
+              Enter a value between 0.01% and {formatBps(MAX_SLIPPAGE_BPS)}.
+            </p>
+          )}
+          {!isCustomSlippageInvalid && slippageBps >= HIGH_SLIPPAGE_BPS && (
+            <p className="text-xs text-yellow-600">
+              ⚠️ High slippage tolerance. Your transaction may be frontrun.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deadline-minutes" className="text-muted-foreground">Transaction deadline</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="deadline-minutes"
+              type="number"
+              min="1"
+              max={MAX_DEADLINE_MINUTES}
+              step="1"
+              value={deadline}
+              onChange={(e) => handleDeadlineChange(e.target.value)}
+              className="bg-secondary border-border"
+            />
+            <span className="text-sm text-muted-foreground">minutes</span>
+          </div>
+          {isDeadlineInvalid && (
+            <p className="text-xs text-red-500">
+              Enter a whole number of minutes between 1 and {MAX_DEADLINE_MINUTES}.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="price-impact-confirm" className="text-muted-foreground">Confirm price impact above</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="price-impact-confirm"
+              type="number"
+              min="0.01"
+              max={MAX_PRICE_IMPACT_BPS / 100}
+              step="0.01"
+              value={impactConfirm}
+              onChange={(e) => handleImpactConfirmChange(e.target.value)}
+              className="bg-secondary border-border"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+          </div>
+          {isImpactConfirmInvalid ? (
+            <p className="text-xs text-red-500">
+              Enter a value between 0.01% and {formatBps(MAX_PRICE_IMPACT_BPS)}.
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Swaps above {formatBps(MAX_PRICE_IMPACT_BPS)} price impact are always blocked.
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useEffect } from "react"
+import type { Hash } from "viem"
+import { toast } from "sonner"
+import { useTransactions } from "@/hooks/use-transactions"
+import { getChainConfig, getExplorerUrl, isSupportedChain } from "@/lib/chains"
+import { getRevertMessage } from "@/lib/errors"
+import { describeTransaction, type TrackedTransaction } from "@/lib/transactions"
+import { getPublicClient } from "@/lib/viem"
+
+// Module-level so a hash is only watched once even if the watcher is mounted
+// more than once
+const watching = new Set<Hash>()
+
+// Pause before waiting for a receipt again after a wait failed, and how many
+// waits to try before giving up on a transaction that was probably dropped
+const RETRY_DELAY_MS = 15_000
+const MAX_RECEIPT_ATTEMPTS = 20
+
+/**
+ * Waits for the receipt of every pending transaction in the store, including
+ * ones restored from local storage after a reload, and records the outcome.
+ */
+export function TransactionWatcher() {
+  const { transactions, resolveTransaction } = useTransactions()
+
+  useEffect(() => {
+    const watch = (tx: TrackedTransaction, attempt = 1) => {
+      const client = getPublicClient(tx.chainId)
+      client
+        .waitForTransactionReceipt({ hash: tx.hash })
+        .then(async (receipt) => {
+          const status = receipt.status === "success" ? "confirmed" : "failed"
+          resolveTransaction(tx.hash, status)
+
+          const explorerUrl = getExplorerUrl(getChainConfig(tx.chainId), "tx", tx.hash)
+          const action = explorerUrl
+            ? { label: "View", onClick: () => window.open(explorerUrl, "_blank", "noopener,noreferrer") }
+            : undefined
+          if (status === "confirmed") {
+            toast.success(`${describeTransaction(tx)} confirmed`, { action })
+          } else {
+            const description = await getRevertMessage(client, receipt)
+            toast.error(`${describeTransaction(tx)} failed`, { description, action })
+          }
+        })
+        .catch((error) => {
+          // Usually an RPC timeout; the transaction stays pending, so wait again
+          console.warn(`Could not get receipt for ${tx.hash}:`, error)
+          if (attempt < MAX_RECEIPT_ATTEMPTS) {
+            setTimeout(() => watch(tx, attempt + 1), RETRY_DELAY_MS)
+          } else {
+            resolveTransaction(tx.hash, "unknown")
+          }
+        })
+    }
+
+    for (const tx of transactions) {
+      if (tx.status !== "pending" || watching.has(tx.hash)) continue
+      watching.add(tx.hash)
+
+      // A network removed from deployments.json has no RPC to ask
+      if (!isSupportedChain(tx.chainId)) {
+        resolveTransaction(tx.hash, "unknown")
+        continue
+      }
+      watch(tx)
+    }
+  }, [transactions, resolveTransaction])
+
+  return null
+}
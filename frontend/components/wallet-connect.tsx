@@ -1,11 +1,11 @@
 "use client"
 
-import { useEffect, useState } from 'react'
-import { useAccount, useDisconnect } from 'wagmi'
-import { Card, CardContent } from "@/components/ui/card"
-import { Badge } from "@/components/ui/badge"
-import { Wallet, CheckCircle, AlertCircle } from "lucide-react"
+import { useAccount, useConnect, useDisconnect } from 'wagmi'
+import { Wallet, CheckCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { WalletPickerDialog } from "@/components/wallet-picker-dialog"
+import { useNetworkStatus } from "@/hooks/use-network-status"
+import { useWalletPicker } from "@/hooks/use-wallet-picker"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import {
   DropdownMenu,
@@ -13,69 +13,18 @@ import {
   DropdownMenuContent,
 } from "@/components/ui/dropdown-menu"
 
-declare global {
-  interface Window {
-    ethereum?: {
-      isMetaMask?: boolean
-      request: (request: { method: string; params?: any[] }) => Promise<any>
-      on: (event: string, handler: (...args: any[]) => void) => void
-      removeListener: (event: string, handler: (...args: any[]) => void) => void
-    }
-  }
-}
-
 export function WalletConnect() {
-  const [isMounted, setIsMounted] = useState(false)
-  const [isConnecting, setIsConnecting] = useState(false)
-  const [connectionError, setConnectionError] = useState<string | null>(null)
-  const { isConnected, address, chain } = useAccount()
+  const { isConnected, address } = useAccount()
+  const { isPending: isConnecting } = useConnect()
+  const { chainName, isWrongNetwork } = useNetworkStatus()
   const { disconnect } = useDisconnect()
-
-  useEffect(() => {
-    setIsMounted(true)
-    return () => {
-      // Cleanup
-      setIsMounted(false)
-    }
-  }, [])
-
-  const handleConnect = async () => {
-    if (typeof window.ethereum === 'undefined') {
-      window.open('https://metamask.io/download.html', '_blank')
-      return
-    }
-
-    try {
-      setConnectionError(null)
-      setIsConnecting(true)
-      
-      // Request account access
-      const accounts = await window.ethereum.request({ 
-        method: 'eth_requestAccounts' 
-      })
-      
-      if (!accounts || accounts.length === 0) {
-        throw new Error('No accounts found')
-      }
-      
-      console.log('Connected:', accounts[0])
-    } catch (error) {
-      console.error('Failed to connect to MetaMask:', error)
-      setConnectionError(
-        error instanceof Error ? error.message : 'Failed to connect to MetaMask'
-      )
-    } finally {
-      if (isMounted) {
-        setIsConnecting(false)
-      }
-    }
-  }
+  const { openWalletPicker } = useWalletPicker()
 
   return (
     <div className="flex items-center gap-4">
       {!isConnected ? (
         <Button 
-          onClick={handleConnect}
+          onClick={openWalletPicker}
           disabled={isConnecting}
           style={{
             background: '#00ADB5',
@@ -83,7 +32,7 @@ export function WalletConnect() {
             color: '#fff'
           }}
         >
-          {isConnecting ? 'Connecting...' : 'Connect MetaMask'}
+          {isConnecting ? 'Connecting...' : 'Connect Wallet'}
         </Button>
       ) : (
         <DropdownMenu>
@@ -95,7 +44,11 @@ export function WalletConnect() {
                   <span className="text-lg font-bold">W</span>
                 </AvatarFallback>
               </Avatar>
-              <span className="absolute bottom-0 right-0 block h-3 w-3 rounded-full ring-2 ring-background bg-green-500" />
+              <span
+                className={`absolute bottom-0 right-0 block h-3 w-3 rounded-full ring-2 ring-background ${
+                  isWrongNetwork ? 'bg-red-500' : 'bg-green-500'
+                }`}
+              />
             </div>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="w-80 p-4 bg-card rounded-xl border border-border shadow-lg">
@@ -114,13 +67,14 @@ export function WalletConnect() {
               <span className="text-sm text-foreground">Network:</span>
               <span
                 className="px-3 py-1 rounded-full text-xs"
-                style={{
-                  border: '1px solid #00ADB5',
-                  color: '#00ADB5',
-                  background: 'rgba(0, 173, 181, 0.10)'
-                }}
+                style={
+                  isWrongNetwork
+                    ? { border: '1px solid #ef4444', color: '#ef4444', background: 'rgba(239, 68, 68, 0.10)' }
+                    : { border: '1px solid #00ADB5', color: '#00ADB5', background: 'rgba(0, 173, 181, 0.10)' }
+                }
               >
-                Sepolia
+                {chainName ?? 'Unknown network'}
+                {isWrongNetwork && ' (unsupported)'}
               </span>
             </div>
             <Button 
@@ -133,6 +87,7 @@ export function WalletConnect() {
           </DropdownMenuContent>
         </DropdownMenu>
       )}
+      <WalletPickerDialog />
     </div>
   )
 }
@@ -0,0 +1,90 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useConnect, type Connector } from "wagmi"
+import { Loader2, Wallet } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useWalletPicker } from "@/hooks/use-wallet-picker"
+import { getErrorMessage } from "@/lib/errors"
+
+// Browser wallets announced through EIP-6963 show up as their own injected
+// connectors. Once any are found, the generic "Injected" entry and the
+// MetaMask SDK entry (when the extension itself was discovered) are redundant.
+function getVisibleConnectors(connectors: readonly Connector[]): Connector[] {
+  const discovered = connectors.filter((connector) => connector.type === "injected" && connector.id !== "injected")
+  const hasMetaMaskExtension = discovered.some((connector) => connector.id === "io.metamask")
+
+  return connectors.filter((connector) => {
+    if (connector.id === "injected") return discovered.length === 0
+    if (connector.id === "metaMaskSDK") return !hasMetaMaskExtension
+    return true
+  })
+}
+
+export function WalletPickerDialog() {
+  const { open, setOpen } = useWalletPicker()
+  const { connectors, connectAsync, isPending } = useConnect()
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const visibleConnectors = useMemo(() => getVisibleConnectors(connectors), [connectors])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setError(null)
+    setOpen(next)
+  }
+
+  const handleConnect = async (connector: Connector) => {
+    setError(null)
+    setPendingId(connector.uid)
+    try {
+      await connectAsync({ connector })
+      handleOpenChange(false)
+    } catch (err) {
+      console.error(`Failed to connect with ${connector.name}:`, err)
+      setError(getErrorMessage(err, `Could not connect ${connector.name}`))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Connect a wallet</DialogTitle>
+          <DialogDescription>Choose how you want to connect to SimpleSwap.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {visibleConnectors.map((connector) => (
+            <Button
+              key={connector.uid}
+              variant="outline"
+              className="w-full justify-start gap-3 h-12"
+              onClick={() => handleConnect(connector)}
+              disabled={isPending}
+            >
+              {connector.icon ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={connector.icon} alt="" className="w-6 h-6 rounded" />
+              ) : (
+                <Wallet className="w-6 h-6" />
+              )}
+              <span className="flex-1 text-left">{connector.name}</span>
+              {pendingId === connector.uid && <Loader2 className="w-4 h-4 animate-spin" />}
+            </Button>
+          ))}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,13 @@
+"use client"
+
+import { useChainId } from "wagmi"
+import { getChainConfig } from "@/lib/chains"
+
+/**
+ * Registry entry (SimpleSwap address, default tokens, explorer) for the
+ * connected chain, or for the default chain when it isn't supported.
+ */
+export function useChainConfig() {
+  const chainId = useChainId()
+  return getChainConfig(chainId)
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { useReadContracts } from "wagmi"
+import { DEFAULT_FEE_TIER, SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+
+/**
+ * Fee tiers new pools can be created with, in basis points and ascending,
+ * and the highest tier the owner may enable. Falls back to the default tier
+ * until the contract answers.
+ */
+export function useFeeTiers() {
+  const { chain, simpleSwapAddress } = useChainConfig()
+
+  const contract = { address: simpleSwapAddress, abi: SIMPLESWAP_ABI, chainId: chain.id } as const
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: "getFeeTiers" },
+      { ...contract, functionName: "MAX_FEE" },
+    ],
+    allowFailure: false,
+  })
+
+  const [feeTiers, maxFee] = data ?? []
+
+  return {
+    feeTiers: feeTiers ? [...feeTiers].sort((a, b) => a - b) : [DEFAULT_FEE_TIER],
+    maxFee,
+    isLoading,
+    refetch,
+  }
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAccount } from "wagmi"
+import { SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useReadClient } from "@/hooks/use-read-client"
+import { useTokenRegistry } from "@/hooks/use-token-registry"
+import { getKnownPairs, getUnderlyingAmounts, type LiquidityPosition } from "@/lib/positions"
+
+/**
+ * Reads the connected account's LP balance in every fee tier of every known
+ * pair and resolves the underlying token amounts for the pools where it
+ * holds liquidity.
+ */
+export function useLiquidityPositions() {
+  const publicClient = useReadClient()
+  const { simpleSwapAddress } = useChainConfig()
+  const { address } = useAccount()
+  const { tokens } = useTokenRegistry()
+  const [positions, setPositions] = useState<LiquidityPosition[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchPositions = useCallback(async () => {
+    if (!publicClient || !address) {
+      setPositions([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const feeTiers = await publicClient.readContract({
+        address: simpleSwapAddress,
+        abi: SIMPLESWAP_ABI,
+        functionName: "getFeeTiers",
+      })
+      const pools = getKnownPairs(tokens).flatMap((pair) => feeTiers.map((fee) => ({ ...pair, fee })))
+      const poolInfos = await Promise.all(
+        pools.map(({ tokenA, tokenB, fee }) =>
+          publicClient.readContract({
+            address: simpleSwapAddress,
+            abi: SIMPLESWAP_ABI,
+            functionName: "getPoolInfo",
+            args: [tokenA.address, tokenB.address, fee, address],
+          })
+        )
+      )
+
+      const held = pools.flatMap(({ tokenA, tokenB, fee }, i): LiquidityPosition[] => {
+        const [reserveA, reserveB, totalLiquidity, liquidity] = poolInfos[i]
+        if (liquidity === 0n) return []
+
+        const [amountA, amountB] = getUnderlyingAmounts(liquidity, reserveA, reserveB, totalLiquidity)
+        return [{ tokenA, tokenB, fee, liquidity, totalLiquidity, reserveA, reserveB, amountA, amountB }]
+      })
+
+      setPositions(held)
+    } catch (err) {
+      console.error("Error fetching liquidity positions:", err)
+      setError(err instanceof Error ? err : new Error("Failed to fetch liquidity positions"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, simpleSwapAddress, address, tokens])
+
+  useEffect(() => {
+    fetchPositions()
+  }, [fetchPositions])
+
+  return { positions, isLoading, error, refetch: fetchPositions }
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { useCallback } from "react"
+import { useAccount, useSwitchChain } from "wagmi"
+import { getChainConfig, getChainName, isSupportedChain } from "@/lib/chains"
+
+/**
+ * Whether the connected wallet is on a network SimpleSwap is deployed to,
+ * and a way to move it to one. Writes must be blocked while
+ * `isWrongNetwork` is true.
+ */
+export function useNetworkStatus() {
+  const { chainId, isConnected } = useAccount()
+  const { switchChainAsync, isPending: isSwitching } = useSwitchChain()
+
+  const isWrongNetwork = isConnected && chainId !== undefined && !isSupportedChain(chainId)
+
+  // wagmi sends wallet_switchEthereumChain and, when the wallet doesn't know
+  // the chain (error 4902, e.g. a local Hardhat node), wallet_addEthereumChain
+  // with these parameters before switching again
+  const switchNetwork = useCallback(
+    async (targetChainId: number) => {
+      const config = getChainConfig(targetChainId)
+      await switchChainAsync({
+        chainId: config.chain.id,
+        addEthereumChainParameter: {
+          chainName: config.chain.name,
+          nativeCurrency: config.chain.nativeCurrency,
+          rpcUrls: config.rpcUrls,
+          blockExplorerUrls: config.explorerUrl ? [config.explorerUrl] : undefined,
+        },
+      })
+    },
+    [switchChainAsync]
+  )
+
+  return {
+    chainId,
+    chainName: chainId !== undefined ? getChainName(chainId) : undefined,
+    isWrongNetwork,
+    isSwitching,
+    switchNetwork,
+  }
+}
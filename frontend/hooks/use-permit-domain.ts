@@ -0,0 +1,50 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Address } from "viem"
+import { useReadClient } from "@/hooks/use-read-client"
+import { getPermitDomain, type PermitDomain } from "@/lib/permit"
+
+// Whether a token supports permits never changes, so look each one up once.
+// Failed lookups aren't cached and are retried the next time the token is used.
+const cache = new Map<string, PermitDomain | null>()
+
+/**
+ * Permit domain of `token` on the current chain: undefined while checking,
+ * null when the token has no EIP-2612 support and needs a regular approval.
+ */
+export function usePermitDomain(token: Address | "" | undefined): PermitDomain | null | undefined {
+  const publicClient = useReadClient()
+  const key = token && publicClient.chain ? `${publicClient.chain.id}:${token.toLowerCase()}` : undefined
+  const [domain, setDomain] = useState<PermitDomain | null | undefined>(key ? cache.get(key) : undefined)
+
+  useEffect(() => {
+    if (!token || !key) {
+      setDomain(undefined)
+      return
+    }
+    if (cache.has(key)) {
+      setDomain(cache.get(key))
+      return
+    }
+
+    let cancelled = false
+    setDomain(undefined)
+    getPermitDomain(publicClient, token).then(
+      (result) => {
+        cache.set(key, result ?? null)
+        if (!cancelled) setDomain(result ?? null)
+      },
+      (error) => {
+        // Fall back to an approval this time without ruling permits out
+        console.warn("Permit support lookup failed:", error)
+        if (!cancelled) setDomain(null)
+      }
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, token, key])
+
+  return domain
+}
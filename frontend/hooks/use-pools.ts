@@ -0,0 +1,71 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useReadClient } from "@/hooks/use-read-client"
+import type { RegisteredPool } from "@/lib/router"
+
+/**
+ * Pages through SimpleSwap's pool registry and returns every pool ever
+ * created with its current reserves. Drained pools are included with zero
+ * reserves; the router skips them.
+ */
+export function usePools() {
+  const publicClient = useReadClient()
+  const { simpleSwapAddress } = useChainConfig()
+  const [pools, setPools] = useState<RegisteredPool[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchPools = useCallback(async () => {
+    if (!publicClient) {
+      setPools([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const length = await publicClient.readContract({
+        address: simpleSwapAddress,
+        abi: SIMPLESWAP_ABI,
+        functionName: "allPoolsLength",
+      })
+
+      const entries = await Promise.all(
+        Array.from({ length: Number(length) }, (_, index) =>
+          publicClient.readContract({
+            address: simpleSwapAddress,
+            abi: SIMPLESWAP_ABI,
+            functionName: "poolAt",
+            args: [BigInt(index)],
+          })
+        )
+      )
+
+      setPools(
+        entries.map(([token0, token1, fee, reserve0, reserve1, totalLiquidity], index) => ({
+          index,
+          tokenA: token0,
+          tokenB: token1,
+          fee,
+          reserveA: reserve0,
+          reserveB: reserve1,
+          totalLiquidity,
+        }))
+      )
+    } catch (err) {
+      console.error("Error fetching pools:", err)
+      setError(err instanceof Error ? err : new Error("Failed to fetch pools"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, simpleSwapAddress])
+
+  useEffect(() => {
+    fetchPools()
+  }, [fetchPools])
+
+  return { pools, isLoading, error, refetch: fetchPools }
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useAccount, useReadContracts } from "wagmi"
+import { zeroAddress, type Address } from "viem"
+import { SIMPLESWAP_ABI } from "@/lib/constants"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { usePools } from "@/hooks/use-pools"
+import { useReadClient } from "@/hooks/use-read-client"
+import { isSameAddress } from "@/lib/token-registry"
+import type { RegisteredPool } from "@/lib/router"
+
+/**
+ * SimpleSwap's owner and protocol fee settings. `isOwner` is true when the
+ * connected account is the owner, which is what unlocks the admin page;
+ * `isPendingOwner` when it has been offered ownership and can accept it.
+ */
+export function useProtocolFeeSettings() {
+  const { address } = useAccount()
+  const { chain, simpleSwapAddress } = useChainConfig()
+
+  const contract = { address: simpleSwapAddress, abi: SIMPLESWAP_ABI, chainId: chain.id } as const
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      { ...contract, functionName: "owner" },
+      { ...contract, functionName: "pendingOwner" },
+      { ...contract, functionName: "feeTo" },
+      { ...contract, functionName: "protocolFeeBps" },
+      { ...contract, functionName: "MAX_PROTOCOL_FEE_BPS" },
+    ],
+    allowFailure: false,
+  })
+
+  const [owner, pendingOwnerValue, feeTo, protocolFeeBps, maxProtocolFeeBps] = data ?? []
+  const pendingOwner = pendingOwnerValue && pendingOwnerValue !== zeroAddress ? pendingOwnerValue : undefined
+
+  return {
+    owner,
+    pendingOwner,
+    feeTo: feeTo && feeTo !== zeroAddress ? feeTo : undefined,
+    protocolFeeBps,
+    maxProtocolFeeBps: maxProtocolFeeBps === undefined ? undefined : Number(maxProtocolFeeBps),
+    isOwner: !!owner && isSameAddress(owner, address),
+    isPendingOwner: !!pendingOwner && isSameAddress(pendingOwner, address),
+    isLoading,
+    refetch,
+  }
+}
+
+export interface ProtocolFeeAccrual extends RegisteredPool {
+  minted: bigint // LP tokens feeTo already holds
+  pending: bigint // LP tokens the next liquidity change in the pool will mint to feeTo
+}
+
+/**
+ * Protocol fees accrued in every pool: the LP tokens `feeTo` holds and the
+ * ones it will be minted on the pool's next liquidity change.
+ */
+export function useProtocolFeeAccruals(feeTo: Address | undefined) {
+  const publicClient = useReadClient()
+  const { simpleSwapAddress } = useChainConfig()
+  const { pools, isLoading: isLoadingPools, error: poolsError, refetch: refetchPools } = usePools()
+  const [accruals, setAccruals] = useState<ProtocolFeeAccrual[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchAccruals = useCallback(async () => {
+    if (!publicClient || !feeTo) {
+      setAccruals([])
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const results = await Promise.all(
+        pools.map((pool) =>
+          Promise.all([
+            publicClient.readContract({
+              address: simpleSwapAddress,
+              abi: SIMPLESWAP_ABI,
+              functionName: "getLiquidity",
+              args: [pool.tokenA, pool.tokenB, pool.fee, feeTo],
+            }),
+            publicClient.readContract({
+              address: simpleSwapAddress,
+              abi: SIMPLESWAP_ABI,
+              functionName: "pendingProtocolFee",
+              args: [pool.tokenA, pool.tokenB, pool.fee],
+            }),
+          ])
+        )
+      )
+
+      setAccruals(pools.map((pool, i) => ({ ...pool, minted: results[i][0], pending: results[i][1] })))
+    } catch (err) {
+      console.error("Error fetching protocol fees:", err)
+      setError(err instanceof Error ? err : new Error("Failed to fetch protocol fees"))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [publicClient, simpleSwapAddress, pools, feeTo])
+
+  useEffect(() => {
+    fetchAccruals()
+  }, [fetchAccruals])
+
+  return {
+    accruals,
+    isLoading: isLoading || isLoadingPools,
+    error: error ?? poolsError,
+    // Reloading the pools reloads the accruals through fetchAccruals' dependencies
+    refetch: refetchPools,
+  }
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import { useMemo } from "react"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { getPublicClient } from "@/lib/viem"
+
+/**
+ * Public client for on-chain reads. It talks to the registry's RPC URLs
+ * directly, so quotes, pools and prices load without a wallet and keep
+ * working while the wallet sits on an unsupported network.
+ */
+export function useReadClient() {
+  const { chain } = useChainConfig()
+  return useMemo(() => getPublicClient(chain.id), [chain.id])
+}
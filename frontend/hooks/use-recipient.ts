@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { isAddress, type Address } from "viem"
+import { normalize } from "viem/ens"
+import { useChainConfig } from "@/hooks/use-chain-config"
+import { useReadClient } from "@/hooks/use-read-client"
+import { isSameAddress } from "@/lib/token-registry"
+
+export interface RecipientState {
+  address?: Address // undefined while the input is empty, invalid or resolving
+  ensName?: string // the normalized name when the input was an ENS name
+  isResolving: boolean
+  error?: string
+  isContract: boolean
+  isSimpleSwap: boolean
+}
+
+const EMPTY_STATE: RecipientState = { isResolving: false, isContract: false, isSimpleSwap: false }
+
+/**
+ * Resolves a typed recipient (a checksummed or lowercase address, or an ENS
+ * name) on the current network and checks whether it is a contract, so the
+ * UI can warn before tokens are sent somewhere they can't be moved from.
+ */
+export function useRecipient(input: string): RecipientState {
+  const publicClient = useReadClient()
+  const { simpleSwapAddress } = useChainConfig()
+  const [state, setState] = useState<RecipientState>(EMPTY_STATE)
+
+  const trimmed = input.trim()
+
+  useEffect(() => {
+    if (!trimmed) {
+      setState(EMPTY_STATE)
+      return
+    }
+
+    let cancelled = false
+    setState({ ...EMPTY_STATE, isResolving: true })
+
+    const resolve = async () => {
+      let address: Address
+      let ensName: string | undefined
+      if (isAddress(trimmed)) {
+        address = trimmed
+      } else if (trimmed.includes(".")) {
+        if (!publicClient.chain?.contracts?.ensUniversalResolver) {
+          throw new Error("ENS names can't be resolved on this network. Enter an address instead.")
+        }
+        ensName = normalize(trimmed)
+        const resolved = await publicClient.getEnsAddress({ name: ensName })
+        if (!resolved) throw new Error(`${ensName} doesn't point to an address`)
+        address = resolved
+      } else {
+        throw new Error(
+          /^0x[0-9a-fA-F]{40}$/.test(trimmed)
+            ? "The address checksum is wrong. Check for typos or paste it in lowercase."
+            : "Enter an address or an ENS name"
+        )
+      }
+
+      const code = await publicClient.getCode({ address })
+      return { address, ensName, isContract: !!code && code !== "0x" }
+    }
+
+    resolve()
+      .then(({ address, ensName, isContract }) => {
+        if (cancelled) return
+        setState({
+          address,
+          ensName,
+          isResolving: false,
+          isContract,
+          isSimpleSwap: isSameAddress(address, simpleSwapAddress),
+        })
+      })
+      .catch((error) => {
+        if (cancelled) return
+        console.error("Error resolving recipient:", error)
+        setState({
+          ...EMPTY_STATE,
+          error: error instanceof Error ? error.message : "Could not resolve the recipient",
+        })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [trimmed, publicClient, simpleSwapAddress])
+
+  return state
+}
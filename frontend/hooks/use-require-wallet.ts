@@ -0,0 +1,22 @@
+"use client"
+
+import { useCallback } from "react"
+import { useAccount, useConnect } from "wagmi"
+import { openWalletPicker } from "@/hooks/use-wallet-picker"
+
+/**
+ * The app is usable without a wallet; write actions call `requestWallet`,
+ * which opens the wallet picker when nothing is connected. Returns whether a
+ * wallet is already connected, so callers can stop and let the user retry.
+ */
+export function useRequireWallet() {
+  const { isConnected } = useAccount()
+  const { isPending } = useConnect()
+
+  const requestWallet = useCallback(() => {
+    if (!isConnected) openWalletPicker()
+    return isConnected
+  }, [isConnected])
+
+  return { isConnected, isConnecting: isPending, requestWallet }
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import * as React from "react"
+import { useChainId } from "wagmi"
+
+import type { TokenInfo } from "@/lib/constants"
+import { getChainConfig } from "@/lib/chains"
+import { getListTokens, loadTokenLists, saveTokenLists, type LoadedTokenList, type TokenList } from "@/lib/token-lists"
+import {
+  findToken,
+  isSameAddress,
+  loadImportedTokens,
+  mergeTokens,
+  saveImportedTokens,
+} from "@/lib/token-registry"
+
+interface State {
+  importedTokens: TokenInfo[]
+  lists: LoadedTokenList[]
+}
+
+// Shared across every mounted component so a token imported in one selector
+// shows up in all of them immediately
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State | undefined
+
+function getState() {
+  if (!memoryState) {
+    memoryState = { importedTokens: loadImportedTokens(), lists: loadTokenLists() }
+  }
+  return memoryState
+}
+
+function setState(next: Partial<State>) {
+  memoryState = { ...getState(), ...next }
+  if (next.importedTokens) saveImportedTokens(memoryState.importedTokens)
+  if (next.lists) saveTokenLists(memoryState.lists)
+  listeners.forEach((listener) => {
+    listener(memoryState!)
+  })
+}
+
+function getImportedTokens(chainId: number) {
+  return getState().importedTokens.filter((token) => token.chainId === chainId)
+}
+
+function importToken(token: TokenInfo, chainId: number) {
+  if (findToken(getChainConfig(chainId).tokens, token.address) || findToken(getImportedTokens(chainId), token.address)) {
+    return
+  }
+  setState({ importedTokens: [...getState().importedTokens, { ...token, imported: true, chainId }] })
+}
+
+function removeImportedToken(address: string, chainId: number) {
+  setState({
+    importedTokens: getState().importedTokens.filter(
+      (token) => token.chainId !== chainId || !isSameAddress(token.address, address)
+    ),
+  })
+}
+
+// Adding a list with an id that is already loaded replaces it, so re-fetching
+// a URL picks up a new version
+function addTokenList(id: string, list: TokenList, url?: string) {
+  const lists = getState().lists.filter((entry) => entry.id !== id)
+  setState({ lists: [...lists, { id, url, list }] })
+}
+
+function removeTokenList(id: string) {
+  setState({ lists: getState().lists.filter((entry) => entry.id !== id) })
+}
+
+function useTokenRegistry() {
+  const chainId = useChainId()
+  const [state, setLocalState] = React.useState<State>(getState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  const importedTokens = React.useMemo(
+    () => state.importedTokens.filter((token) => token.chainId === chainId),
+    [state, chainId]
+  )
+
+  // Default tokens win over list tokens, which win over imported ones
+  const tokens = React.useMemo(
+    () =>
+      mergeTokens(
+        getChainConfig(chainId).tokens,
+        ...state.lists.map((entry) => getListTokens(entry.list, chainId)),
+        importedTokens
+      ),
+    [state, chainId, importedTokens]
+  )
+
+  return {
+    tokens,
+    chainId,
+    importedTokens,
+    lists: state.lists,
+    importToken: React.useCallback((token: TokenInfo) => importToken(token, chainId), [chainId]),
+    removeImportedToken: React.useCallback((address: string) => removeImportedToken(address, chainId), [chainId]),
+    addTokenList,
+    removeTokenList,
+  }
+}
+
+export { useTokenRegistry }
@@ -0,0 +1,53 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  getSlippageBps,
+  loadTransactionSettings,
+  saveTransactionSettings,
+  type TransactionSettings,
+} from "@/lib/transaction-settings"
+
+// Shared across every mounted component so the swap and liquidity screens
+// always agree on the current settings
+const listeners: Array<(state: TransactionSettings) => void> = []
+
+let memoryState: TransactionSettings | undefined
+
+function getState() {
+  if (!memoryState) {
+    memoryState = loadTransactionSettings()
+  }
+  return memoryState
+}
+
+function updateTransactionSettings(update: Partial<TransactionSettings>) {
+  memoryState = { ...getState(), ...update }
+  saveTransactionSettings(memoryState)
+  listeners.forEach((listener) => {
+    listener(memoryState!)
+  })
+}
+
+function useTransactionSettings() {
+  const [state, setState] = React.useState<TransactionSettings>(getState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    settings: state,
+    slippageBps: getSlippageBps(state),
+    updateSettings: updateTransactionSettings,
+  }
+}
+
+export { useTransactionSettings }
@@ -0,0 +1,74 @@
+"use client"
+
+import * as React from "react"
+import type { Hash } from "viem"
+
+import {
+  loadTransactions,
+  MAX_TRACKED_TRANSACTIONS,
+  saveTransactions,
+  type TrackedTransaction,
+  type TransactionStatus,
+} from "@/lib/transactions"
+
+// Newest first. Shared so the activity drawer, the receipt watcher and the
+// forms that send transactions all see the same list.
+const listeners: Array<(state: TrackedTransaction[]) => void> = []
+
+let memoryState: TrackedTransaction[] | undefined
+
+function getState() {
+  if (!memoryState) {
+    memoryState = loadTransactions()
+  }
+  return memoryState
+}
+
+function setTransactions(transactions: TrackedTransaction[]) {
+  memoryState = transactions.slice(0, MAX_TRACKED_TRANSACTIONS)
+  saveTransactions(memoryState)
+  listeners.forEach((listener) => {
+    listener(memoryState!)
+  })
+}
+
+type NewTransaction = Omit<TrackedTransaction, "status" | "createdAt" | "resolvedAt">
+
+function addTransaction(tx: NewTransaction) {
+  const rest = getState().filter((existing) => existing.hash !== tx.hash)
+  setTransactions([{ ...tx, status: "pending", createdAt: Date.now() }, ...rest])
+}
+
+function resolveTransaction(hash: Hash, status: Exclude<TransactionStatus, "pending">) {
+  setTransactions(
+    getState().map((tx) => (tx.hash === hash ? { ...tx, status, resolvedAt: Date.now() } : tx))
+  )
+}
+
+function clearTransactions() {
+  setTransactions(getState().filter((tx) => tx.status === "pending"))
+}
+
+function useTransactions() {
+  const [transactions, setState] = React.useState<TrackedTransaction[]>(getState)
+
+  React.useEffect(() => {
+    listeners.push(setState)
+    return () => {
+      const index = listeners.indexOf(setState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    transactions,
+    pendingCount: transactions.filter((tx) => tx.status === "pending").length,
+    addTransaction,
+    resolveTransaction,
+    clearTransactions,
+  }
+}
+
+export { useTransactions, addTransaction }
@@ -0,0 +1,38 @@
+"use client"
+
+import * as React from "react"
+
+// One picker for the whole app: the header button and any write action that
+// needs a wallet open the same dialog
+const listeners: Array<(open: boolean) => void> = []
+
+let memoryState = false
+
+function setWalletPickerOpen(open: boolean) {
+  memoryState = open
+  listeners.forEach((listener) => {
+    listener(memoryState)
+  })
+}
+
+function openWalletPicker() {
+  setWalletPickerOpen(true)
+}
+
+function useWalletPicker() {
+  const [open, setOpen] = React.useState(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setOpen)
+    return () => {
+      const index = listeners.indexOf(setOpen)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return { open, setOpen: setWalletPickerOpen, openWalletPicker }
+}
+
+export { useWalletPicker, openWalletPicker }
@@ -0,0 +1,88 @@
+import { formatUnits, parseUnits } from "viem";
+import type { TokenInfo } from "./constants";
+
+// Anything that knows its own decimals (a TokenInfo, or an LP position)
+export type AmountUnit = Pick<TokenInfo, "decimals">;
+
+// Fixed-point precision used when formatting ratios such as prices
+const RATIO_PRECISION = 18;
+
+/**
+ * Parses a user-typed decimal string into base units of the given token.
+ * Returns undefined for empty, non-numeric, negative or over-precise input
+ * instead of throwing, so it can be used directly inside render/memo code.
+ */
+export function parseTokenAmount(value: string, unit: AmountUnit | undefined): bigint | undefined {
+  if (!unit || !value) return undefined;
+
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === ".") return undefined;
+
+  // parseUnits silently rounds extra fraction digits, reject them instead
+  const fraction = trimmed.split(".")[1];
+  if (fraction && fraction.length > unit.decimals) return undefined;
+
+  try {
+    return parseUnits(trimmed, unit.decimals);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Formats base units of the given token as a decimal string.
+ * When maxDecimals is set, the fraction is truncated (never rounded up)
+ * so a displayed balance is always spendable.
+ */
+export function formatTokenAmount(
+  amount: bigint | undefined,
+  unit: AmountUnit | undefined,
+  maxDecimals?: number
+): string {
+  if (amount === undefined || !unit) return "0";
+
+  const formatted = formatUnits(amount, unit.decimals);
+  if (maxDecimals === undefined) return formatted;
+
+  return truncateDecimals(formatted, maxDecimals);
+}
+
+/**
+ * Returns one whole token expressed in base units (10^decimals).
+ */
+export function oneToken(unit: AmountUnit): bigint {
+  return 10n ** BigInt(unit.decimals);
+}
+
+/**
+ * Formats the price of one `base` token in `quote` tokens given the raw
+ * amounts on each side (e.g. pool reserves), accounting for both decimals.
+ */
+export function formatRatio(
+  quoteAmount: bigint,
+  quote: AmountUnit,
+  baseAmount: bigint,
+  base: AmountUnit,
+  maxDecimals = 6
+): string {
+  if (baseAmount === 0n) return "0";
+
+  const scaled = (quoteAmount * oneToken(base) * 10n ** BigInt(RATIO_PRECISION)) / baseAmount;
+  return truncateDecimals(formatUnits(scaled, quote.decimals + RATIO_PRECISION), maxDecimals);
+}
+
+/**
+ * Unit of a pool's LP balance. Initial liquidity is minted as
+ * sqrt(amount0 * amount1), so LP amounts carry the mean of both tokens' decimals.
+ */
+export function lpUnit(tokenA: AmountUnit, tokenB: AmountUnit): AmountUnit {
+  return { decimals: Math.floor((tokenA.decimals + tokenB.decimals) / 2) };
+}
+
+function truncateDecimals(formatted: string, maxDecimals: number): string {
+  const [whole, fraction] = formatted.split(".");
+  if (!fraction || maxDecimals <= 0) return whole;
+
+  const kept = fraction.slice(0, maxDecimals).replace(/0+$/, "");
+  return kept ? `${whole}.${kept}` : whole;
+}
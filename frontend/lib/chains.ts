@@ -0,0 +1,123 @@
+import { zeroAddress, type Address, type Chain } from "viem";
+import * as knownChains from "viem/chains";
+import { hardhat, sepolia } from "viem/chains";
+import type { TokenInfo } from "./constants";
+import deployments from "./deployments.json";
+
+// Contract addresses per chain ID, written by the contracts package's
+// scripts/export-addresses.ts after each Ignition deployment
+export interface Deployment {
+  SimpleSwap: Address;
+  TestTokenA: Address;
+  TestTokenB: Address;
+}
+
+export const DEPLOYMENTS = deployments as Record<string, Deployment>;
+
+// Everything the app needs to know about one network
+export interface ChainConfig {
+  chain: Chain;
+  simpleSwapAddress: Address;
+  tokens: TokenInfo[];
+  rpcUrls: string[]; // tried in order
+  explorerUrl?: string;
+}
+
+const INFURA_API_KEY = process.env.NEXT_PUBLIC_INFURA_API_KEY;
+
+// Networks the app knows how to reach. A network is only offered once it has
+// an entry in deployments.json.
+const NETWORKS: Array<Omit<ChainConfig, "simpleSwapAddress" | "tokens">> = [
+  {
+    chain: sepolia,
+    rpcUrls: [
+      ...(INFURA_API_KEY ? [`https://sepolia.infura.io/v3/${INFURA_API_KEY}`] : []),
+      "https://rpc.sepolia.org",
+    ],
+    explorerUrl: "https://sepolia.etherscan.io",
+  },
+  {
+    chain: hardhat,
+    rpcUrls: [process.env.NEXT_PUBLIC_LOCALHOST_RPC_URL || "http://127.0.0.1:8545"],
+  },
+];
+
+// The faucet tokens deployed next to SimpleSwap. Addresses are lowercase like
+// every other address the app stores.
+function getDefaultTokens(deployment: Deployment): TokenInfo[] {
+  return [
+    {
+      symbol: "TTA",
+      name: "TestTokenA",
+      address: deployment.TestTokenA.toLowerCase() as Address,
+      decimals: 18,
+      logoURI: "https://placehold.co/32/blue/white?text=TTA",
+    },
+    {
+      symbol: "TTB",
+      name: "TestTokenB",
+      address: deployment.TestTokenB.toLowerCase() as Address,
+      decimals: 6,
+      logoURI: "https://placehold.co/32/green/white?text=TTB",
+    },
+  ];
+}
+
+export const CHAIN_CONFIGS: Record<number, ChainConfig> = Object.fromEntries(
+  NETWORKS.flatMap((network) => {
+    const deployment = DEPLOYMENTS[network.chain.id];
+    if (!deployment) return [];
+    return [
+      [
+        network.chain.id,
+        { ...network, simpleSwapAddress: deployment.SimpleSwap, tokens: getDefaultTokens(deployment) },
+      ],
+    ];
+  })
+);
+
+// False until a deploy script has written addresses to deployments.json; the
+// app then only shows how to deploy
+export const HAS_DEPLOYMENTS = Object.keys(CHAIN_CONFIGS).length > 0;
+
+// Stands in for a deployment while there is none, so wallets and RPCs can still
+// be set up. Nothing is read from its zero address.
+const UNDEPLOYED_CONFIG: ChainConfig = { ...NETWORKS[0], simpleSwapAddress: zeroAddress, tokens: [] };
+
+// Sepolia when it is deployed to (or nothing is), otherwise the first deployed network
+export const DEFAULT_CHAIN_ID =
+  CHAIN_CONFIGS[sepolia.id] || !HAS_DEPLOYMENTS ? sepolia.id : Number(Object.keys(CHAIN_CONFIGS)[0]);
+
+export const SUPPORTED_CHAINS = (HAS_DEPLOYMENTS ? Object.values(CHAIN_CONFIGS) : [UNDEPLOYED_CONFIG]).map(
+  (config) => config.chain
+) as [Chain, ...Chain[]];
+
+export function isSupportedChain(chainId: number | undefined): boolean {
+  return chainId !== undefined && chainId in CHAIN_CONFIGS;
+}
+
+/**
+ * Config for the given chain, or for the default chain when the chain is
+ * unknown or not deployed to.
+ */
+export function getChainConfig(chainId: number | undefined): ChainConfig {
+  return (chainId !== undefined && CHAIN_CONFIGS[chainId]) || CHAIN_CONFIGS[DEFAULT_CHAIN_ID] || UNDEPLOYED_CONFIG;
+}
+
+export function getExplorerUrl(
+  config: ChainConfig,
+  kind: "tx" | "address",
+  value: string
+): string | undefined {
+  return config.explorerUrl ? `${config.explorerUrl}/${kind}/${value}` : undefined;
+}
+
+/**
+ * Human-readable name for any chain ID, including networks SimpleSwap isn't
+ * deployed on, so the UI can tell users where their wallet actually is.
+ */
+export function getChainName(chainId: number): string {
+  if (CHAIN_CONFIGS[chainId]) return CHAIN_CONFIGS[chainId].chain.name;
+  const known = (Object.values(knownChains) as Chain[]).find((chain) => chain.id === chainId);
+  return known?.name ?? `Chain ${chainId}`;
+}
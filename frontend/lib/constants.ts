@@ -1,6 +1,3 @@
-import type { Address } from "viem";
-
-export const SIMPLESWAP_ADDRESS: Address = "0xC5fd570BFF105Ec45b0817c86a4d4525ced25bE4";
 export const SIMPLESWAP_ABI = [
   // Events
   {
@@ -9,6 +6,7 @@ export const SIMPLESWAP_ABI = [
     "inputs": [
       { "name": "tokenA", "type": "address", "indexed": true },
       { "name": "tokenB", "type": "address", "indexed": true },
+      { "name": "fee", "type": "uint16" },
       { "name": "amountA", "type": "uint256" },
       { "name": "amountB", "type": "uint256" },
       { "name": "liquidity", "type": "uint256" },
@@ -21,6 +19,7 @@ export const SIMPLESWAP_ABI = [
     "inputs": [
       { "name": "tokenA", "type": "address", "indexed": true },
       { "name": "tokenB", "type": "address", "indexed": true },
+      { "name": "fee", "type": "uint16" },
       { "name": "amountA", "type": "uint256" },
       { "name": "amountB", "type": "uint256" },
       { "name": "liquidity", "type": "uint256" },
@@ -32,11 +31,44 @@ export const SIMPLESWAP_ABI = [
     "name": "Swap",
     "inputs": [
       { "name": "sender", "type": "address", "indexed": true },
-      { "name": "tokenIn", "type": "address" },
-      { "name": "tokenOut", "type": "address" },
+      { "name": "tokenIn", "type": "address", "indexed": true },
+      { "name": "tokenOut", "type": "address", "indexed": true },
+      { "name": "fee", "type": "uint16" },
       { "name": "amountIn", "type": "uint256" },
       { "name": "amountOut", "type": "uint256" },
-      { "name": "to", "type": "address", "indexed": true }
+      { "name": "to", "type": "address" }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "PoolCreated",
+    "inputs": [
+      { "name": "token0", "type": "address", "indexed": true },
+      { "name": "token1", "type": "address", "indexed": true },
+      { "name": "fee", "type": "uint16", "indexed": true },
+      { "name": "lpToken", "type": "address" },
+      { "name": "poolIndex", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "FeeTierEnabled",
+    "inputs": [
+      { "name": "fee", "type": "uint16" }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "FeeToUpdated",
+    "inputs": [
+      { "name": "feeTo", "type": "address", "indexed": true }
+    ]
+  },
+  {
+    "type": "event",
+    "name": "ProtocolFeeUpdated",
+    "inputs": [
+      { "name": "protocolFeeBps", "type": "uint256" }
     ]
   },
   
@@ -48,6 +80,7 @@ export const SIMPLESWAP_ABI = [
     "inputs": [
       { "name": "tokenA", "type": "address" },
       { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" },
       { "name": "amountADesired", "type": "uint256" },
       { "name": "amountBDesired", "type": "uint256" },
       { "name": "amountAMin", "type": "uint256" },
@@ -61,6 +94,49 @@ export const SIMPLESWAP_ABI = [
       { "name": "liquidity", "type": "uint256" }
     ]
   },
+  {
+    "type": "function",
+    "name": "addLiquidityWithPermit",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "tokenA", "type": "address" },
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" },
+      { "name": "amountADesired", "type": "uint256" },
+      { "name": "amountBDesired", "type": "uint256" },
+      { "name": "amountAMin", "type": "uint256" },
+      { "name": "amountBMin", "type": "uint256" },
+      { "name": "to", "type": "address" },
+      { "name": "deadline", "type": "uint256" },
+      {
+        "name": "permitA",
+        "type": "tuple",
+        "components": [
+          { "name": "value", "type": "uint256" },
+          { "name": "deadline", "type": "uint256" },
+          { "name": "v", "type": "uint8" },
+          { "name": "r", "type": "bytes32" },
+          { "name": "s", "type": "bytes32" }
+        ]
+      },
+      {
+        "name": "permitB",
+        "type": "tuple",
+        "components": [
+          { "name": "value", "type": "uint256" },
+          { "name": "deadline", "type": "uint256" },
+          { "name": "v", "type": "uint8" },
+          { "name": "r", "type": "bytes32" },
+          { "name": "s", "type": "bytes32" }
+        ]
+      }
+    ],
+    "outputs": [
+      { "name": "amountA", "type": "uint256" },
+      { "name": "amountB", "type": "uint256" },
+      { "name": "liquidity", "type": "uint256" }
+    ]
+  },
   {
     "type": "function",
     "name": "removeLiquidity",
@@ -68,6 +144,7 @@ export const SIMPLESWAP_ABI = [
     "inputs": [
       { "name": "tokenA", "type": "address" },
       { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" },
       { "name": "liquidity", "type": "uint256" },
       { "name": "amountAMin", "type": "uint256" },
       { "name": "amountBMin", "type": "uint256" },
@@ -87,6 +164,50 @@ export const SIMPLESWAP_ABI = [
       { "name": "amountIn", "type": "uint256" },
       { "name": "amountOutMin", "type": "uint256" },
       { "name": "path", "type": "address[]" },
+      { "name": "fees", "type": "uint16[]" },
+      { "name": "to", "type": "address" },
+      { "name": "deadline", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "amounts", "type": "uint256[]" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "swapExactTokensForTokensWithPermit",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "amountIn", "type": "uint256" },
+      { "name": "amountOutMin", "type": "uint256" },
+      { "name": "path", "type": "address[]" },
+      { "name": "fees", "type": "uint16[]" },
+      { "name": "to", "type": "address" },
+      { "name": "deadline", "type": "uint256" },
+      {
+        "name": "permit",
+        "type": "tuple",
+        "components": [
+          { "name": "value", "type": "uint256" },
+          { "name": "deadline", "type": "uint256" },
+          { "name": "v", "type": "uint8" },
+          { "name": "r", "type": "bytes32" },
+          { "name": "s", "type": "bytes32" }
+        ]
+      }
+    ],
+    "outputs": [
+      { "name": "amounts", "type": "uint256[]" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "swapTokensForExactTokens",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "amountOut", "type": "uint256" },
+      { "name": "amountInMax", "type": "uint256" },
+      { "name": "path", "type": "address[]" },
+      { "name": "fees", "type": "uint16[]" },
       { "name": "to", "type": "address" },
       { "name": "deadline", "type": "uint256" }
     ],
@@ -101,39 +222,254 @@ export const SIMPLESWAP_ABI = [
     "inputs": [
       { "name": "amountIn", "type": "uint256" },
       { "name": "reserveIn", "type": "uint256" },
-      { "name": "reserveOut", "type": "uint256" }
+      { "name": "reserveOut", "type": "uint256" },
+      { "name": "fee", "type": "uint16" }
     ],
     "outputs": [
       { "name": "amountOut", "type": "uint256" }
     ]
   },
+  {
+    "type": "function",
+    "name": "getAmountIn",
+    "stateMutability": "pure",
+    "inputs": [
+      { "name": "amountOut", "type": "uint256" },
+      { "name": "reserveIn", "type": "uint256" },
+      { "name": "reserveOut", "type": "uint256" },
+      { "name": "fee", "type": "uint16" }
+    ],
+    "outputs": [
+      { "name": "amountIn", "type": "uint256" }
+    ]
+  },
   {
     "type": "function",
     "name": "getReserves",
     "stateMutability": "view",
     "inputs": [
       { "name": "tokenA", "type": "address" },
-      { "name": "tokenB", "type": "address" }
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" }
     ],
     "outputs": [
       { "name": "reserveA", "type": "uint112" },
       { "name": "reserveB", "type": "uint112" }
     ]
   },
+  {
+    "type": "function",
+    "name": "getLpToken",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "tokenA", "type": "address" },
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" }
+    ],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getLiquidity",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "tokenA", "type": "address" },
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" },
+      { "name": "user", "type": "address" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getPoolInfo",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "tokenA", "type": "address" },
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" },
+      { "name": "user", "type": "address" }
+    ],
+    "outputs": [
+      { "name": "reserveA", "type": "uint112" },
+      { "name": "reserveB", "type": "uint112" },
+      { "name": "totalLiquidity", "type": "uint256" },
+      { "name": "userLiquidity", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "allPoolsLength",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "poolAt",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "index", "type": "uint256" }
+    ],
+    "outputs": [
+      { "name": "token0", "type": "address" },
+      { "name": "token1", "type": "address" },
+      { "name": "fee", "type": "uint16" },
+      { "name": "reserve0", "type": "uint112" },
+      { "name": "reserve1", "type": "uint112" },
+      { "name": "totalLiquidity", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "getFeeTiers",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint16[]" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "isFeeTierEnabled",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "fee", "type": "uint16" }
+    ],
+    "outputs": [
+      { "name": "", "type": "bool" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "MAX_FEE",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint16" }
+    ]
+  },
   {
     "type": "function",
     "name": "getPrice",
     "stateMutability": "view",
     "inputs": [
       { "name": "tokenA", "type": "address" },
-      { "name": "tokenB", "type": "address" }
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" }
     ],
     "outputs": [
       { "name": "price", "type": "uint256" }
     ]
+  },
+
+  // Protocol fee and ownership
+  {
+    "type": "function",
+    "name": "owner",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "pendingOwner",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "acceptOwnership",
+    "stateMutability": "nonpayable",
+    "inputs": [],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "feeTo",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "address" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "protocolFeeBps",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint16" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "MAX_PROTOCOL_FEE_BPS",
+    "stateMutability": "view",
+    "inputs": [],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "pendingProtocolFee",
+    "stateMutability": "view",
+    "inputs": [
+      { "name": "tokenA", "type": "address" },
+      { "name": "tokenB", "type": "address" },
+      { "name": "fee", "type": "uint16" }
+    ],
+    "outputs": [
+      { "name": "", "type": "uint256" }
+    ]
+  },
+  {
+    "type": "function",
+    "name": "setFeeTo",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "newFeeTo", "type": "address" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "setProtocolFee",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "newProtocolFeeBps", "type": "uint16" }
+    ],
+    "outputs": []
+  },
+  {
+    "type": "function",
+    "name": "enableFeeTier",
+    "stateMutability": "nonpayable",
+    "inputs": [
+      { "name": "fee", "type": "uint16" }
+    ],
+    "outputs": []
   }
 ] as const;
 
+// Fee tier the liquidity page starts on, in basis points (0.3%)
+export const DEFAULT_FEE_TIER = 30;
+
+// Symbol of every pool's LP token (SimpleSwapLP)
+export const LP_TOKEN_SYMBOL = "SS-LP";
+
 // Token interface
 export interface TokenInfo {
   symbol: string;
@@ -143,22 +479,7 @@ export interface TokenInfo {
   logoURI: string;
   balance?: string;
   formattedBalance?: string;
+  imported?: boolean; // added by the user by address, not verified by us
+  source?: string; // name of the token list it was loaded from
+  chainId?: number; // chain an imported token lives on
 }
-
-// Supported Tokens
-export const SUPPORTED_TOKENS: TokenInfo[] = [
-  {
-    symbol: "TTA",
-    name: "TestTokenA",
-    address: "0xd6ae949f6405c366d23cc30422d684b6e76551ca",
-    decimals: 18,
-    logoURI: "https://placehold.co/32/blue/white?text=TTA"
-  },
-  {
-    symbol: "TTB",
-    name: "TestTokenB",
-    address: "0xd35dad90ed974961c5299654def0a87478d82a15",
-    decimals: 6,
-    logoURI: "https://placehold.co/32/green/white?text=TTB"
-  }
-] as const;
\ No newline at end of file
@@ -0,0 +1,150 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  RawContractError,
+  decodeErrorResult,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+} from "viem";
+
+// One message per require() code in SimpleSwap.sol. The contracts test suite
+// checks this table against the contract source, so a new code fails CI
+// until it is described here.
+export const SIMPLESWAP_ERROR_MESSAGES: Record<string, string> = {
+  "SS:EXP": "The transaction deadline passed before it was mined. Try again or raise the deadline in settings.",
+  "SS:IR": "The recipient address is invalid.",
+  "SS:INA": "The first token amount is zero or below your minimum. Enter a larger amount or raise your slippage tolerance.",
+  "SS:INB": "The second token amount is below your minimum. Raise your slippage tolerance and try again.",
+  "SS:IL": "There is not enough liquidity for this amount. Try a smaller amount.",
+  "SS:IPL": "A swap route needs at least two tokens.",
+  "SS:IA": "The same token can't appear twice in a pair or route.",
+  "SS:IZA": "One of the token addresses is invalid.",
+  "SS:IOA": "The price moved: you would receive less than your minimum. Raise your slippage tolerance or try again.",
+  "SS:EIA": "The price moved: the swap would cost more than your maximum input. Raise your slippage tolerance or try again.",
+  "SS:ILM": "These amounts are too small to mint any liquidity. Deposit more.",
+  "SS:ILB": "You don't have that much liquidity in this pool.",
+  "SS:ITL": "This pool has no liquidity to remove.",
+  "SS:RNI": "This pool has no liquidity yet. Add liquidity first.",
+  "SS:IPI": "That pool doesn't exist.",
+  "SS:OVERFLOW": "The pool reserves would exceed their maximum size. Try a smaller amount.",
+  "SS:IPF": "The protocol fee share is above the maximum the contract allows.",
+  "SS:IFT": "That fee tier isn't available. Pick one of the enabled tiers.",
+  "SS:IFL": "The swap route needs one fee tier for each hop.",
+  "SS:FORBIDDEN": "Only the SimpleSwap contract can mint or burn LP tokens.",
+};
+
+// Custom errors from OpenZeppelin's ERC20, ERC20Permit and SafeERC20, which
+// SimpleSwap bubbles up from token transfers and permits, and from Ownable on
+// admin calls
+export const TOKEN_ERRORS_ABI = [
+  { type: "error", name: "ERC20InsufficientBalance", inputs: [{ name: "sender", type: "address" }, { name: "balance", type: "uint256" }, { name: "needed", type: "uint256" }] },
+  { type: "error", name: "ERC20InsufficientAllowance", inputs: [{ name: "spender", type: "address" }, { name: "allowance", type: "uint256" }, { name: "needed", type: "uint256" }] },
+  { type: "error", name: "ERC20InvalidSender", inputs: [{ name: "sender", type: "address" }] },
+  { type: "error", name: "ERC20InvalidReceiver", inputs: [{ name: "receiver", type: "address" }] },
+  { type: "error", name: "ERC20InvalidApprover", inputs: [{ name: "approver", type: "address" }] },
+  { type: "error", name: "ERC20InvalidSpender", inputs: [{ name: "spender", type: "address" }] },
+  { type: "error", name: "SafeERC20FailedOperation", inputs: [{ name: "token", type: "address" }] },
+  { type: "error", name: "ERC2612ExpiredSignature", inputs: [{ name: "deadline", type: "uint256" }] },
+  { type: "error", name: "ERC2612InvalidSigner", inputs: [{ name: "signer", type: "address" }, { name: "owner", type: "address" }] },
+  { type: "error", name: "OwnableUnauthorizedAccount", inputs: [{ name: "account", type: "address" }] },
+] as const;
+
+const TOKEN_ERROR_MESSAGES: Record<string, string> = {
+  ERC20InsufficientBalance: "Your token balance is too low for this transaction.",
+  ERC20InsufficientAllowance: "SimpleSwap isn't approved to spend enough of this token. Approve it and try again.",
+  ERC20InvalidSender: "The token rejected the sender address.",
+  ERC20InvalidReceiver: "The token rejected the receiving address.",
+  ERC20InvalidApprover: "The token rejected the approving address.",
+  ERC20InvalidSpender: "The token rejected the spender address.",
+  SafeERC20FailedOperation: "The token transfer failed. The token may not be a standard ERC-20.",
+  ERC2612ExpiredSignature: "The signed permit expired before the transaction was mined. Try again.",
+  ERC2612InvalidSigner: "The signed permit is no longer valid. Try again to sign a new one.",
+  OwnableUnauthorizedAccount: "Only the SimpleSwap owner can change these settings.",
+};
+
+export const USER_REJECTED_MESSAGE = "You rejected the request in your wallet.";
+
+const SS_CODE_PATTERN = /SS:[A-Z]+/;
+
+/**
+ * True when the wallet reports that the user declined the request
+ * (EIP-1193 code 4001).
+ */
+export function isUserRejection(error: unknown): boolean {
+  const matches = (err: unknown) =>
+    (err as { code?: unknown })?.code === 4001 || (err as { name?: unknown })?.name === "UserRejectedRequestError";
+
+  if (error instanceof BaseError) return !!error.walk(matches);
+  return matches(error);
+}
+
+function decodeTokenError(data: Hex | undefined): string | undefined {
+  if (!data) return undefined;
+  try {
+    const { errorName } = decodeErrorResult({ abi: TOKEN_ERRORS_ABI, data });
+    return TOKEN_ERROR_MESSAGES[errorName];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turns anything thrown by a wallet, simulation or transaction into a message
+ * the user can act on. Known SimpleSwap codes, token errors and wallet
+ * rejections get a fixed message; anything else falls back to viem's short
+ * message, prefixed with `context` when given.
+ */
+export function getErrorMessage(error: unknown, context?: string): string {
+  if (isUserRejection(error)) return USER_REJECTED_MESSAGE;
+
+  if (error instanceof BaseError) {
+    const reverted = error.walk((err) => err instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      if (reverted.reason && SIMPLESWAP_ERROR_MESSAGES[reverted.reason]) {
+        return SIMPLESWAP_ERROR_MESSAGES[reverted.reason];
+      }
+      const errorName = reverted.data?.errorName;
+      const tokenMessage = (errorName && TOKEN_ERROR_MESSAGES[errorName]) || decodeTokenError(reverted.raw);
+      if (tokenMessage) return tokenMessage;
+    }
+  }
+
+  // Wallets and RPCs don't always return structured revert data, but the
+  // reason string survives in the message
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  const code = message.match(SS_CODE_PATTERN)?.[0];
+  if (code && SIMPLESWAP_ERROR_MESSAGES[code]) return SIMPLESWAP_ERROR_MESSAGES[code];
+  const tokenError = Object.keys(TOKEN_ERROR_MESSAGES).find((name) => message.includes(name));
+  if (tokenError) return TOKEN_ERROR_MESSAGES[tokenError];
+
+  const detail = error instanceof BaseError ? error.shortMessage : message;
+  if (!detail) return context ? `${context}. Please try again.` : "Something went wrong. Please try again.";
+  return context ? `${context}: ${detail}` : detail;
+}
+
+/**
+ * Receipts don't carry a revert reason, so this replays a reverted
+ * transaction against the state of the block before it and describes the
+ * error it hits.
+ */
+export async function getRevertMessage(client: PublicClient, receipt: TransactionReceipt): Promise<string> {
+  try {
+    const tx = await client.getTransaction({ hash: receipt.transactionHash });
+    await client.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: receipt.blockNumber - 1n,
+    });
+  } catch (error) {
+    const raw = error instanceof BaseError ? error.walk((err) => err instanceof RawContractError) : undefined;
+    const data = raw instanceof RawContractError ? raw.data : undefined;
+    const tokenMessage = decodeTokenError(typeof data === "object" ? data.data : data);
+    return tokenMessage ?? getErrorMessage(error, "Transaction reverted");
+  }
+  // The replay can succeed when the revert depended on an earlier
+  // transaction in the same block
+  return "The transaction reverted on-chain.";
+}
@@ -0,0 +1,151 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  domainSeparator,
+  parseSignature,
+  zeroAddress,
+  zeroHash,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+
+const PERMIT_ABI = [
+  {
+    type: "function",
+    name: "nonces",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "eip712Domain",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "fields", type: "bytes1" },
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" },
+      { name: "salt", type: "bytes32" },
+      { name: "extensions", type: "uint256[]" },
+    ],
+  },
+  {
+    type: "function",
+    name: "DOMAIN_SEPARATOR",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+  },
+  {
+    type: "function",
+    name: "name",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+] as const;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+// The EIP-712 domain fields a token signs permits under, besides chain and address
+export interface PermitDomain {
+  name: string;
+  version: string;
+}
+
+// Matches SimpleSwap's PermitSignature struct
+export type PermitSignature = {
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: Hex;
+  s: Hex;
+};
+
+// Passed for a token that is already approved; SimpleSwap skips permits with a zero deadline
+export const NO_PERMIT: PermitSignature = { value: 0n, deadline: 0n, v: 0, r: zeroHash, s: zeroHash };
+
+// A revert or an empty result means the token lacks the function; any other
+// failure (timeouts, RPC errors) says nothing about the token
+function isMissingFunction(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    !!error.walk((err) => err instanceof ContractFunctionRevertedError || err instanceof ContractFunctionZeroDataError)
+  );
+}
+
+/**
+ * Permit domain of a token, or undefined when it doesn't support EIP-2612.
+ * Uses ERC-5267's eip712Domain() when available; otherwise the token's
+ * DOMAIN_SEPARATOR must match its name with the customary version "1".
+ * Throws when a read fails for another reason than the token lacking it.
+ */
+export async function getPermitDomain(client: PublicClient, token: Address): Promise<PermitDomain | undefined> {
+  try {
+    const [, name, version] = await client.readContract({ address: token, abi: PERMIT_ABI, functionName: "eip712Domain" });
+    await client.readContract({ address: token, abi: PERMIT_ABI, functionName: "nonces", args: [zeroAddress] });
+    return { name, version };
+  } catch (error) {
+    // Not ERC-5267, try the older way below
+    if (!isMissingFunction(error)) throw error;
+  }
+
+  try {
+    const [name, separator] = await Promise.all([
+      client.readContract({ address: token, abi: PERMIT_ABI, functionName: "name" }),
+      client.readContract({ address: token, abi: PERMIT_ABI, functionName: "DOMAIN_SEPARATOR" }),
+      client.readContract({ address: token, abi: PERMIT_ABI, functionName: "nonces", args: [zeroAddress] }),
+    ]);
+    const expected = domainSeparator({
+      domain: { name, version: "1", chainId: await client.getChainId(), verifyingContract: token },
+    });
+    return expected === separator ? { name, version: "1" } : undefined;
+  } catch (error) {
+    if (!isMissingFunction(error)) throw error;
+    return undefined;
+  }
+}
+
+interface SignPermitParams {
+  token: Address;
+  domain: PermitDomain;
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  deadline: bigint;
+}
+
+/**
+ * Asks the wallet to sign an EIP-2612 permit for the owner's next nonce.
+ */
+export async function signPermit(
+  walletClient: WalletClient,
+  client: PublicClient,
+  { token, domain, owner, spender, value, deadline }: SignPermitParams
+): Promise<PermitSignature> {
+  const nonce = await client.readContract({ address: token, abi: PERMIT_ABI, functionName: "nonces", args: [owner] });
+  const signature = await walletClient.signTypedData({
+    account: owner,
+    domain: { ...domain, chainId: await client.getChainId(), verifyingContract: token },
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    message: { owner, spender, value, nonce, deadline },
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { value, deadline, v: Number(v ?? BigInt(yParity + 27)), r, s };
+}
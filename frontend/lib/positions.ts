@@ -0,0 +1,83 @@
+import type { TokenInfo } from "./constants";
+
+export interface TokenPair {
+  tokenA: TokenInfo;
+  tokenB: TokenInfo;
+  fee?: number; // fee tier in basis points, when one pool of the pair is meant
+}
+
+// A user's stake in one pool, with amounts ordered as (tokenA, tokenB)
+export interface LiquidityPosition extends TokenPair {
+  fee: number;
+  liquidity: bigint;
+  totalLiquidity: bigint;
+  reserveA: bigint;
+  reserveB: bigint;
+  amountA: bigint; // underlying tokenA the LP balance redeems for
+  amountB: bigint; // underlying tokenB the LP balance redeems for
+}
+
+/**
+ * Every unordered pair that can be built from the given token list.
+ */
+export function getKnownPairs(tokens: readonly TokenInfo[]): TokenPair[] {
+  const pairs: TokenPair[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (let j = i + 1; j < tokens.length; j++) {
+      pairs.push({ tokenA: tokens[i], tokenB: tokens[j] });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Underlying amounts redeemed by burning `liquidity` LP tokens, rounded down
+ * exactly like SimpleSwap's removeLiquidity.
+ */
+export function getUnderlyingAmounts(
+  liquidity: bigint,
+  reserveA: bigint,
+  reserveB: bigint,
+  totalLiquidity: bigint
+): [bigint, bigint] {
+  if (totalLiquidity === 0n) return [0n, 0n];
+  return [(liquidity * reserveA) / totalLiquidity, (liquidity * reserveB) / totalLiquidity];
+}
+
+// LP units SimpleSwap locks forever when a pool is created (SimpleSwap.MINIMUM_LIQUIDITY)
+export const MINIMUM_LIQUIDITY = 1000n;
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+/**
+ * LP tokens the first deposit in a pool mints to the depositor: the geometric
+ * mean of both amounts minus the locked MINIMUM_LIQUIDITY. Zero or less means
+ * SimpleSwap would revert the deposit.
+ */
+export function getInitialLiquidity(amountA: bigint, amountB: bigint): bigint {
+  return sqrt(amountA * amountB) - MINIMUM_LIQUIDITY;
+}
+
+/**
+ * Formats part/total as a percentage with two decimals, using bigint math
+ * so large reserves don't lose precision.
+ */
+export function formatShare(part: bigint, total: bigint): string {
+  if (total === 0n) return "0%";
+
+  const basisPoints = (part * 10_000n) / total;
+  if (basisPoints === 0n && part > 0n) return "<0.01%";
+
+  const whole = basisPoints / 100n;
+  const fraction = (basisPoints % 100n).toString().padStart(2, "0");
+  return `${whole}.${fraction}%`;
+}
@@ -0,0 +1,38 @@
+// Price impact is tracked in basis points, like slippage (1 bps = 0.01%)
+
+// Warning tiers: from 1% the impact is highlighted, from 3% it is a warning
+// and from 15% it is shown as dangerous
+export const PRICE_IMPACT_LOW_BPS = 100;
+export const PRICE_IMPACT_MEDIUM_BPS = 300;
+export const PRICE_IMPACT_HIGH_BPS = 1_500;
+
+// Swaps with a higher impact are refused outright, whatever the settings say
+export const MAX_PRICE_IMPACT_BPS = 3_000; // 30%
+
+// Default impact above which the user has to confirm they understand it
+export const DEFAULT_PRICE_IMPACT_CONFIRM_BPS = 500; // 5%
+
+export type PriceImpactTier = "none" | "low" | "medium" | "high";
+
+export function getPriceImpactTier(bps: number): PriceImpactTier {
+  if (bps >= PRICE_IMPACT_HIGH_BPS) return "high";
+  if (bps >= PRICE_IMPACT_MEDIUM_BPS) return "medium";
+  if (bps >= PRICE_IMPACT_LOW_BPS) return "low";
+  return "none";
+}
+
+// Text color for each tier
+export const PRICE_IMPACT_TIER_CLASSES: Record<PriceImpactTier, string> = {
+  none: "text-green-600",
+  low: "text-yellow-600",
+  medium: "text-orange-500",
+  high: "text-red-500",
+};
+
+export function isPriceImpactBlocked(bps: number): boolean {
+  return bps > MAX_PRICE_IMPACT_BPS;
+}
+
+export function isValidPriceImpactConfirmBps(bps: number): boolean {
+  return Number.isInteger(bps) && bps > 0 && bps <= MAX_PRICE_IMPACT_BPS;
+}
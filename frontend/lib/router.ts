@@ -0,0 +1,295 @@
+import type { Address } from "viem";
+import { formatBps } from "./transaction-settings";
+
+// Longest route the router will consider, in pools
+export const MAX_HOPS = 3;
+
+// Denominator of swap fees, which SimpleSwap keeps in basis points
+const FEE_DENOMINATOR = 10_000n;
+
+// Reserves of one pool, ordered as (tokenA, tokenB)
+export interface PoolReserves {
+  tokenA: Address;
+  tokenB: Address;
+  fee: number; // swap fee in basis points
+  reserveA: bigint;
+  reserveB: bigint;
+}
+
+// A pool as listed by SimpleSwap's registry, ordered as (token0, token1)
+export interface RegisteredPool extends PoolReserves {
+  index: number;
+  totalLiquidity: bigint;
+}
+
+// A path through one or more pools and the amount at every step of it
+export interface SwapRoute {
+  path: Address[];
+  fees: number[]; // fee tier of the pool used for each hop
+  amounts: bigint[]; // amounts[0] is the input, the last element is the output
+}
+
+// One pool of a pair with its reserves ordered as (reserveIn, reserveOut)
+export interface PairPool {
+  fee: number;
+  reserveIn: bigint;
+  reserveOut: bigint;
+}
+
+/**
+ * Same constant-product quote as SimpleSwap.getAmountOut, with the pool's fee
+ * in basis points deducted from the input.
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, fee: number): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(fee));
+  return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+}
+
+/**
+ * Same quote as SimpleSwap.getAmountIn, rounded up in favour of the pool.
+ * Returns undefined when the pool can't cover `amountOut`.
+ */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, fee: number): bigint | undefined {
+  if (amountOut <= 0n || reserveIn <= 0n || reserveOut <= amountOut) return undefined;
+  return (reserveIn * amountOut * FEE_DENOMINATOR) / ((reserveOut - amountOut) * (FEE_DENOMINATOR - BigInt(fee))) + 1n;
+}
+
+/**
+ * Every fee tier of the tokenIn/tokenOut pair that has liquidity, with its
+ * reserves ordered as (reserveIn, reserveOut).
+ */
+export function getPairPools(pools: readonly PoolReserves[], tokenIn: Address, tokenOut: Address): PairPool[] {
+  const a = tokenIn.toLowerCase();
+  const b = tokenOut.toLowerCase();
+  const pairPools: PairPool[] = [];
+  for (const pool of pools) {
+    if (pool.reserveA <= 0n || pool.reserveB <= 0n) continue;
+    const poolA = pool.tokenA.toLowerCase();
+    const poolB = pool.tokenB.toLowerCase();
+    if (poolA === a && poolB === b) pairPools.push({ fee: pool.fee, reserveIn: pool.reserveA, reserveOut: pool.reserveB });
+    if (poolA === b && poolB === a) pairPools.push({ fee: pool.fee, reserveIn: pool.reserveB, reserveOut: pool.reserveA });
+  }
+  return pairPools;
+}
+
+/**
+ * Reserves of the tokenIn/tokenOut pool in the given fee tier, ordered as
+ * (reserveIn, reserveOut), or undefined when that pool has no liquidity.
+ */
+export function getPoolReserves(
+  pools: readonly PoolReserves[],
+  tokenIn: Address,
+  tokenOut: Address,
+  fee: number
+): [bigint, bigint] | undefined {
+  const pool = getPairPools(pools, tokenIn, tokenOut).find((pairPool) => pairPool.fee === fee);
+  return pool && [pool.reserveIn, pool.reserveOut];
+}
+
+/**
+ * Every path from tokenIn to tokenOut through pools with liquidity, never
+ * revisiting a token (the contract rejects such paths) and at most `maxHops` long.
+ */
+export function findPaths(
+  pools: readonly PoolReserves[],
+  tokenIn: Address,
+  tokenOut: Address,
+  maxHops: number = MAX_HOPS
+): Address[][] {
+  const neighbours = new Map<string, Address[]>();
+  for (const pool of pools) {
+    if (pool.reserveA <= 0n || pool.reserveB <= 0n) continue;
+    const a = pool.tokenA.toLowerCase();
+    const b = pool.tokenB.toLowerCase();
+    // A pair with pools in several fee tiers is still a single edge
+    if (neighbours.get(a)?.some((token) => token.toLowerCase() === b)) continue;
+    neighbours.set(a, [...(neighbours.get(a) ?? []), pool.tokenB]);
+    neighbours.set(b, [...(neighbours.get(b) ?? []), pool.tokenA]);
+  }
+
+  const target = tokenOut.toLowerCase();
+  const paths: Address[][] = [];
+  const walk = (path: Address[]) => {
+    const last = path[path.length - 1].toLowerCase();
+    if (last === target) {
+      paths.push(path);
+      return;
+    }
+    if (path.length > maxHops) return;
+    for (const next of neighbours.get(last) ?? []) {
+      if (path.some((token) => token.toLowerCase() === next.toLowerCase())) continue;
+      walk([...path, next]);
+    }
+  };
+
+  if (tokenIn.toLowerCase() !== target) walk([tokenIn]);
+  return paths;
+}
+
+/**
+ * Quotes an exact input along `path`, taking at every hop the fee tier that
+ * returns the most. Each hop's pool only affects the amounts after it, so
+ * picking the best tier hop by hop gives the best route through the path.
+ * Returns undefined when a hop has no pool or rounds down to nothing.
+ */
+export function getAmountsOut(
+  pools: readonly PoolReserves[],
+  amountIn: bigint,
+  path: readonly Address[]
+): SwapRoute | undefined {
+  const fees: number[] = [];
+  const amounts = [amountIn];
+  for (let i = 0; i < path.length - 1; i++) {
+    let bestFee: number | undefined;
+    let bestAmountOut = 0n;
+    for (const pool of getPairPools(pools, path[i], path[i + 1])) {
+      const amountOut = getAmountOut(amounts[i], pool.reserveIn, pool.reserveOut, pool.fee);
+      if (amountOut > bestAmountOut) {
+        bestFee = pool.fee;
+        bestAmountOut = amountOut;
+      }
+    }
+    if (bestFee === undefined) return undefined;
+    fees.push(bestFee);
+    amounts.push(bestAmountOut);
+  }
+  return { path: [...path], fees, amounts };
+}
+
+/**
+ * Quotes an exact output along `path`, taking at every hop (from the last
+ * one back) the fee tier that costs the least. Returns undefined when a hop
+ * has no pool that can cover its output.
+ */
+export function getAmountsIn(
+  pools: readonly PoolReserves[],
+  amountOut: bigint,
+  path: readonly Address[]
+): SwapRoute | undefined {
+  const fees: number[] = [];
+  const amounts = [amountOut];
+  for (let i = path.length - 1; i > 0; i--) {
+    let bestFee: number | undefined;
+    let bestAmountIn: bigint | undefined;
+    for (const pool of getPairPools(pools, path[i - 1], path[i])) {
+      const amountIn = getAmountIn(amounts[0], pool.reserveIn, pool.reserveOut, pool.fee);
+      if (amountIn !== undefined && (bestAmountIn === undefined || amountIn < bestAmountIn)) {
+        bestFee = pool.fee;
+        bestAmountIn = amountIn;
+      }
+    }
+    if (bestFee === undefined || bestAmountIn === undefined) return undefined;
+    fees.unshift(bestFee);
+    amounts.unshift(bestAmountIn);
+  }
+  return { path: [...path], fees, amounts };
+}
+
+/**
+ * The route that returns the most tokenOut for an exact input.
+ */
+export function findBestRouteExactIn(
+  pools: readonly PoolReserves[],
+  amountIn: bigint,
+  tokenIn: Address,
+  tokenOut: Address
+): SwapRoute | undefined {
+  let best: SwapRoute | undefined;
+  for (const path of findPaths(pools, tokenIn, tokenOut)) {
+    const route = getAmountsOut(pools, amountIn, path);
+    if (!route) continue;
+    if (!best || route.amounts[route.amounts.length - 1] > best.amounts[best.amounts.length - 1]) {
+      best = route;
+    }
+  }
+  return best;
+}
+
+/**
+ * The route that costs the least tokenIn for an exact output.
+ */
+export function findBestRouteExactOut(
+  pools: readonly PoolReserves[],
+  amountOut: bigint,
+  tokenIn: Address,
+  tokenOut: Address
+): SwapRoute | undefined {
+  let best: SwapRoute | undefined;
+  for (const path of findPaths(pools, tokenIn, tokenOut)) {
+    const route = getAmountsIn(pools, amountOut, path);
+    if (!route) continue;
+    if (!best || route.amounts[0] < best.amounts[0]) {
+      best = route;
+    }
+  }
+  return best;
+}
+
+// A price as a fraction of raw amounts: `quote` base units of the last token
+// in a path per `base` base units of the first
+export interface Price {
+  quote: bigint;
+  base: bigint;
+}
+
+/**
+ * Mid price along `path` through the pools of the given fee tiers: the
+ * product of each pool's reserve ratio, with no fee and no price impact.
+ * Kept as a fraction so nothing is lost to rounding.
+ */
+export function getMidPrice(
+  pools: readonly PoolReserves[],
+  path: readonly Address[],
+  fees: readonly number[]
+): Price | undefined {
+  let quote = 1n;
+  let base = 1n;
+  for (let i = 0; i < path.length - 1; i++) {
+    const reserves = getPoolReserves(pools, path[i], path[i + 1], fees[i]);
+    if (!reserves) return undefined;
+    base *= reserves[0];
+    quote *= reserves[1];
+  }
+  return { quote, base };
+}
+
+/**
+ * How far a route's execution price falls short of the mid price, in basis
+ * points and rounded up. The fee of every hop is priced in first, so the fee
+ * on its own never counts as impact.
+ */
+export function getPriceImpactBps(pools: readonly PoolReserves[], route: SwapRoute): number | undefined {
+  const mid = getMidPrice(pools, route.path, route.fees);
+  if (!mid) return undefined;
+
+  const amountIn = route.amounts[0];
+  const amountOut = route.amounts[route.amounts.length - 1];
+  const feeFactor = route.fees.reduce((product, fee) => product * (FEE_DENOMINATOR - BigInt(fee)), 1n);
+
+  // Compare amountOut / amountIn with mid * (1 - fee) of every hop, cross-multiplied
+  const ideal = amountIn * mid.quote * feeFactor;
+  const actual = amountOut * mid.base * FEE_DENOMINATOR ** BigInt(route.fees.length);
+  if (ideal === 0n) return undefined;
+  if (actual >= ideal) return 0;
+  return Number(((ideal - actual) * 10_000n + ideal - 1n) / ideal);
+}
+
+/**
+ * Fee paid at each hop of a route, in that hop's input token: the same share
+ * of the input that getAmountOut deducts for the hop's fee tier.
+ */
+export function getRouteFees(route: SwapRoute): bigint[] {
+  return route.amounts.slice(0, -1).map((amount, i) => (amount * BigInt(route.fees[i])) / FEE_DENOMINATOR);
+}
+
+/**
+ * The fee tiers of a route's hops for display: "0.3%" for a single hop,
+ * "0.3% per hop" when every hop has the same tier, "0.05% + 1%" otherwise.
+ */
+export function formatRouteFeeTiers(fees: readonly number[]): string {
+  if (fees.every((fee) => fee === fees[0])) {
+    return `${formatBps(fees[0])}${fees.length > 1 ? " per hop" : ""}`;
+  }
+  return fees.map((fee) => formatBps(fee)).join(" + ");
+}
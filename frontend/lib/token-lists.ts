@@ -0,0 +1,128 @@
+import { getAddress } from "viem";
+import { z } from "zod";
+import type { TokenInfo } from "./constants";
+
+// Subset of the tokenlists.org JSON schema that SimpleSwap reads and writes
+// (https://github.com/Uniswap/token-lists)
+const tokenListTokenSchema = z.object({
+  chainId: z.number().int().positive(),
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "must be a 20-byte hex address"),
+  name: z.string().min(1).max(60),
+  symbol: z.string().min(1).max(20),
+  decimals: z.number().int().min(0).max(255),
+  logoURI: z.string().optional(),
+  tags: z.array(z.string()).max(10).optional(),
+  extensions: z.record(z.unknown()).optional(),
+});
+
+const versionSchema = z.object({
+  major: z.number().int().min(0),
+  minor: z.number().int().min(0),
+  patch: z.number().int().min(0),
+});
+
+export const tokenListSchema = z.object({
+  name: z.string().min(1).max(30),
+  timestamp: z.string().datetime({ offset: true }),
+  version: versionSchema,
+  tokens: z.array(tokenListTokenSchema).max(10_000),
+  logoURI: z.string().optional(),
+  keywords: z.array(z.string()).max(20).optional(),
+  tags: z.record(z.object({ name: z.string(), description: z.string() })).optional(),
+});
+
+export type TokenList = z.infer<typeof tokenListSchema>;
+
+// A list the user has added, remembered with where it came from
+export interface LoadedTokenList {
+  id: string; // the URL, or "file:<name>" for uploads
+  url?: string;
+  list: TokenList;
+}
+
+const STORAGE_KEY = "simpleswap:token-lists";
+
+// Name used when exporting the registry
+export const EXPORTED_LIST_NAME = "SimpleSwap Tokens";
+
+/**
+ * Validates untrusted JSON against the token list schema. Throws an Error
+ * describing the first problem found.
+ */
+export function parseTokenList(json: unknown): TokenList {
+  const result = tokenListSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+    throw new Error(`Invalid token list (${path}${issue.message})`);
+  }
+  return result.data;
+}
+
+export async function fetchTokenList(url: string): Promise<TokenList> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download token list (HTTP ${response.status})`);
+  }
+  return parseTokenList(await response.json());
+}
+
+/**
+ * The list's tokens on one chain, tagged with the list name as their source.
+ */
+export function getListTokens(list: TokenList, chainId: number): TokenInfo[] {
+  return list.tokens
+    .filter((token) => token.chainId === chainId)
+    .map((token) => ({
+      address: getAddress(token.address),
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      logoURI: token.logoURI ?? "",
+      source: list.name,
+    }));
+}
+
+/**
+ * Builds a token list from the given tokens so it can be shared with others.
+ */
+export function createTokenList(tokens: readonly TokenInfo[], chainId: number, name = EXPORTED_LIST_NAME): TokenList {
+  return {
+    name,
+    timestamp: new Date().toISOString(),
+    version: { major: 1, minor: 0, patch: 0 },
+    tokens: tokens.map((token) => ({
+      chainId,
+      address: getAddress(token.address),
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      ...(token.logoURI ? { logoURI: token.logoURI } : {}),
+    })),
+  };
+}
+
+export function loadTokenLists(): LoadedTokenList[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((entry): LoadedTokenList[] => {
+      const result = tokenListSchema.safeParse(entry?.list);
+      if (!result.success || typeof entry.id !== "string") return [];
+      return [{ id: entry.id, url: typeof entry.url === "string" ? entry.url : undefined, list: result.data }];
+    });
+  } catch (error) {
+    console.warn("Ignoring unreadable token lists:", error);
+    return [];
+  }
+}
+
+export function saveTokenLists(lists: readonly LoadedTokenList[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+}
@@ -0,0 +1,97 @@
+import { erc20Abi, getAddress, type Address, type PublicClient } from "viem";
+import { DEFAULT_CHAIN_ID } from "./chains";
+import type { TokenInfo } from "./constants";
+
+const STORAGE_KEY = "simpleswap:imported-tokens";
+
+// Symbols come from arbitrary contracts, so keep them short enough for the UI
+const MAX_SYMBOL_LENGTH = 16;
+
+export function isSameAddress(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+export function findToken(tokens: readonly TokenInfo[], address: string | undefined): TokenInfo | undefined {
+  return tokens.find((token) => isSameAddress(token.address, address));
+}
+
+/**
+ * Concatenates token lists, keeping the first entry for every address so
+ * defaults always win over imports.
+ */
+export function mergeTokens(...lists: ReadonlyArray<readonly TokenInfo[]>): TokenInfo[] {
+  const merged: TokenInfo[] = [];
+  for (const list of lists) {
+    for (const token of list) {
+      if (!findToken(merged, token.address)) merged.push(token);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Reads name, symbol and decimals from an ERC-20 contract. Throws if the
+ * address doesn't answer like an ERC-20.
+ */
+export async function fetchTokenMetadata(client: PublicClient, address: Address): Promise<TokenInfo> {
+  const tokenAddress = getAddress(address);
+  const [name, symbol, decimals] = await Promise.all([
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "name" }),
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "symbol" }),
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "decimals" }),
+  ]);
+
+  return {
+    address: tokenAddress,
+    name,
+    symbol: symbol.slice(0, MAX_SYMBOL_LENGTH),
+    decimals,
+    logoURI: "",
+    imported: true,
+  };
+}
+
+function isStoredToken(value: unknown): value is TokenInfo {
+  if (!value || typeof value !== "object") return false;
+  const token = value as Record<string, unknown>;
+  return (
+    typeof token.address === "string" &&
+    /^0x[0-9a-fA-F]{40}$/.test(token.address) &&
+    typeof token.name === "string" &&
+    typeof token.symbol === "string" &&
+    typeof token.decimals === "number" &&
+    Number.isInteger(token.decimals) &&
+    token.decimals >= 0 &&
+    token.decimals <= 255
+  );
+}
+
+export function loadImportedTokens(): TokenInfo[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isStoredToken).map((token) => ({
+      address: token.address,
+      name: token.name,
+      symbol: token.symbol.slice(0, MAX_SYMBOL_LENGTH),
+      decimals: token.decimals,
+      logoURI: "",
+      imported: true,
+      // Tokens saved before multi-chain support were all on the default chain
+      chainId: typeof token.chainId === "number" ? token.chainId : DEFAULT_CHAIN_ID,
+    }));
+  } catch (error) {
+    console.warn("Ignoring unreadable imported tokens:", error);
+    return [];
+  }
+}
+
+export function saveImportedTokens(tokens: readonly TokenInfo[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+}
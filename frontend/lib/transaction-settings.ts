@@ -0,0 +1,107 @@
+import { DEFAULT_PRICE_IMPACT_CONFIRM_BPS, isValidPriceImpactConfirmBps } from "./price-impact";
+
+// Slippage tolerance is tracked in basis points (1 bps = 0.01%) so that
+// minimum amounts can be derived with exact bigint math.
+export const BPS_DENOMINATOR = 10_000n;
+
+// Tolerance used when the user leaves slippage on "auto"
+export const AUTO_SLIPPAGE_BPS = 50; // 0.5%
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100] as const;
+export const MAX_SLIPPAGE_BPS = 5_000; // 50%
+
+export const DEFAULT_DEADLINE_MINUTES = 20;
+export const MAX_DEADLINE_MINUTES = 4_320; // 3 days
+
+export interface TransactionSettings {
+  slippage: "auto" | number; // custom tolerance in bps
+  deadlineMinutes: number;
+  priceImpactConfirmBps: number; // swaps above this impact need an explicit confirmation
+}
+
+export const DEFAULT_TRANSACTION_SETTINGS: TransactionSettings = {
+  slippage: "auto",
+  deadlineMinutes: DEFAULT_DEADLINE_MINUTES,
+  priceImpactConfirmBps: DEFAULT_PRICE_IMPACT_CONFIRM_BPS,
+};
+
+const STORAGE_KEY = "simpleswap:transaction-settings";
+
+/**
+ * Resolves the effective slippage tolerance in basis points.
+ */
+export function getSlippageBps(settings: TransactionSettings): number {
+  return settings.slippage === "auto" ? AUTO_SLIPPAGE_BPS : settings.slippage;
+}
+
+/**
+ * Returns the minimum acceptable amount for a quoted amount after slippage,
+ * rounding down like the contract does.
+ */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  return (amount * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+}
+
+/**
+ * Returns the maximum acceptable input for a quoted input after slippage,
+ * rounding up so the cap never lands below the quote.
+ */
+export function applyMaxSlippage(amount: bigint, slippageBps: number): bigint {
+  const scaled = amount * (BPS_DENOMINATOR + BigInt(slippageBps));
+  return (scaled + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+}
+
+/**
+ * Unix timestamp (seconds) after which a transaction submitted now should revert.
+ */
+export function getDeadline(deadlineMinutes: number): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + deadlineMinutes * 60);
+}
+
+/**
+ * Formats basis points as a percentage without trailing zeros. Whole basis
+ * points need two decimals; derived values such as a share of a fee may need more.
+ */
+export function formatBps(bps: number, decimals = 2): string {
+  return `${Number((bps / 100).toFixed(decimals))}%`;
+}
+
+export function isValidSlippageBps(bps: number): boolean {
+  return Number.isInteger(bps) && bps > 0 && bps <= MAX_SLIPPAGE_BPS;
+}
+
+export function isValidDeadlineMinutes(minutes: number): boolean {
+  return Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_DEADLINE_MINUTES;
+}
+
+export function loadTransactionSettings(): TransactionSettings {
+  if (typeof window === "undefined") return DEFAULT_TRANSACTION_SETTINGS;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_TRANSACTION_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<TransactionSettings>;
+    return {
+      slippage:
+        typeof parsed.slippage === "number" && isValidSlippageBps(parsed.slippage)
+          ? parsed.slippage
+          : "auto",
+      deadlineMinutes:
+        typeof parsed.deadlineMinutes === "number" && isValidDeadlineMinutes(parsed.deadlineMinutes)
+          ? parsed.deadlineMinutes
+          : DEFAULT_DEADLINE_MINUTES,
+      priceImpactConfirmBps:
+        typeof parsed.priceImpactConfirmBps === "number" && isValidPriceImpactConfirmBps(parsed.priceImpactConfirmBps)
+          ? parsed.priceImpactConfirmBps
+          : DEFAULT_PRICE_IMPACT_CONFIRM_BPS,
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable transaction settings:", error);
+    return DEFAULT_TRANSACTION_SETTINGS;
+  }
+}
+
+export function saveTransactionSettings(settings: TransactionSettings) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,111 @@
+import type { Address, Hash } from "viem";
+import { formatTokenAmount } from "./amounts";
+import type { TokenInfo } from "./constants";
+
+export type TransactionType = "approve" | "swap" | "addLiquidity" | "removeLiquidity" | "mint" | "protocolFee" | "feeTier" | "ownership";
+
+// "unknown" when the receipt could not be found, e.g. on a network that is no
+// longer configured
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "unknown";
+
+export interface TransactionToken {
+  address: Address;
+  symbol: string;
+  amount: string; // formatted for display, e.g. "12.5"
+}
+
+export interface TrackedTransaction {
+  hash: Hash;
+  chainId: number;
+  account: Address;
+  type: TransactionType;
+  tokens: TransactionToken[]; // in the order they read in the summary
+  status: TransactionStatus;
+  createdAt: number; // ms since epoch
+  resolvedAt?: number;
+}
+
+export function toTransactionToken(token: TokenInfo, amount: bigint): TransactionToken {
+  return { address: token.address, symbol: token.symbol, amount: formatTokenAmount(amount, token, 6) };
+}
+
+const STORAGE_KEY = "simpleswap:transactions";
+
+// Older entries are dropped so local storage stays small
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  approve: "Approve",
+  swap: "Swap",
+  addLiquidity: "Add liquidity",
+  removeLiquidity: "Remove liquidity",
+  mint: "Mint",
+  protocolFee: "Protocol fee",
+  feeTier: "Fee tier",
+  ownership: "Ownership",
+};
+
+export function getTransactionLabel(type: TransactionType): string {
+  return TYPE_LABELS[type];
+}
+
+/**
+ * One-line description such as "Swap 10 TTA for 9.87 TTB".
+ */
+export function describeTransaction(tx: Pick<TrackedTransaction, "type" | "tokens">): string {
+  const [first, second] = tx.tokens.map((token) => `${token.amount} ${token.symbol}`);
+  switch (tx.type) {
+    case "swap":
+      return `Swap ${first} for ${second}`;
+    case "addLiquidity":
+      return `Add ${first} and ${second}`;
+    case "removeLiquidity":
+      return `Remove liquidity for ${first} and ${second}`;
+    case "approve":
+      return `Approve ${tx.tokens[0]?.symbol ?? "token"}`;
+    case "mint":
+      return `Mint ${first}`;
+    case "protocolFee":
+      return "Update protocol fee settings";
+    case "feeTier":
+      return "Enable a fee tier";
+    case "ownership":
+      return "Accept SimpleSwap ownership";
+  }
+}
+
+function isStoredTransaction(value: unknown): value is TrackedTransaction {
+  if (!value || typeof value !== "object") return false;
+  const tx = value as Record<string, unknown>;
+  return (
+    typeof tx.hash === "string" &&
+    /^0x[0-9a-fA-F]{64}$/.test(tx.hash) &&
+    typeof tx.chainId === "number" &&
+    typeof tx.account === "string" &&
+    typeof tx.type === "string" &&
+    tx.type in TYPE_LABELS &&
+    Array.isArray(tx.tokens) &&
+    (tx.status === "pending" || tx.status === "confirmed" || tx.status === "failed" || tx.status === "unknown") &&
+    typeof tx.createdAt === "number"
+  );
+}
+
+export function loadTransactions(): TrackedTransaction[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isStoredTransaction) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable transaction history:", error);
+    return [];
+  }
+}
+
+export function saveTransactions(transactions: readonly TrackedTransaction[]) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+}
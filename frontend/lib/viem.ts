@@ -1,11 +1,18 @@
-import { createPublicClient, http } from 'viem';
-import { sepolia } from 'viem/chains';
+import { createPublicClient, fallback, http, type PublicClient } from 'viem';
+import { getChainConfig } from './chains';
 
-// Create a public client for Sepolia
-export const publicClient = createPublicClient({
-  chain: sepolia,
-  transport: http(process.env.NEXT_PUBLIC_INFURA_API_KEY 
-    ? `https://sepolia.infura.io/v3/${process.env.NEXT_PUBLIC_INFURA_API_KEY}`
-    : 'https://rpc.sepolia.org'
-  ),
-});
+const clients = new Map<number, PublicClient>();
+
+// Read-only client for a chain from the registry, created once per chain
+export function getPublicClient(chainId: number): PublicClient {
+  const config = getChainConfig(chainId);
+  let client = clients.get(config.chain.id);
+  if (!client) {
+    client = createPublicClient({
+      chain: config.chain,
+      transport: fallback(config.rpcUrls.map((url) => http(url))),
+    });
+    clients.set(config.chain.id, client);
+  }
+  return client;
+}